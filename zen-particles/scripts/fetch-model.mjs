@@ -0,0 +1,22 @@
+// Downloads the hand landmarker model into public/ so the app can serve it itself.
+// Runs before dev/build; does nothing if the model is already there.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+const target = fileURLToPath(new URL('../public/mediapipe/hand_landmarker.task', import.meta.url))
+
+if (existsSync(target)) process.exit(0)
+
+try {
+  console.log(`Downloading hand landmarker model to ${target}`)
+  const response = await fetch(MODEL_URL)
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  mkdirSync(dirname(target), { recursive: true })
+  writeFileSync(target, Buffer.from(await response.arrayBuffer()))
+} catch (err) {
+  // Don't block dev/build when offline; the app shows a load error until the model is in place
+  console.warn(`Could not download the hand model (${err.message}). Copy hand_landmarker.task to ${target} manually.`)
+}
@@ -0,0 +1,138 @@
+// Writes the synthetic hand landmark fixtures in src/test/fixtures/. They are not
+// camera recordings: each pose is an idealized hand built from a few joint positions,
+// moved between keyframes at 30 fps with a little seeded jitter, and saved in the
+// session recording format. Output is deterministic, so re-running it reproduces
+// the committed files.
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+const outDir = process.argv[2] ?? fileURLToPath(new URL('../src/test/fixtures/', import.meta.url))
+
+// Hand in palm units (wrist at origin, fingers towards -y), image x to the right
+const mcp = { index: [0.3, -1], middle: [0.05, -1.05], ring: [-0.18, -1], pinky: [-0.38, -0.9] }
+const splay = { index: 0.12, middle: 0.02, ring: -0.08, pinky: -0.18 }
+
+const fingerExtended = (finger) => {
+  const [x, y] = mcp[finger]
+  const d = splay[finger]
+  return [
+    [x, y, 0],
+    [x + d * 0.45, y - 0.45, 0],
+    [x + d * 0.75, y - 0.75, 0],
+    [x + d, y - 1, 0],
+  ]
+}
+
+const fingerCurled = (finger) => {
+  const [x, y] = mcp[finger]
+  return [
+    [x, y, 0],
+    [x, y - 0.3, -0.2],
+    [x * 0.8, y - 0.1, -0.3],
+    [x * 0.6, y + 0.8, -0.2],
+  ]
+}
+
+const thumbExtended = [
+  [0.25, -0.2, 0],
+  [0.45, -0.35, 0],
+  [0.7, -0.5, 0],
+  [1.05, -0.65, 0],
+]
+const thumbCurled = [
+  [0.25, -0.2, 0],
+  [0.45, -0.35, 0],
+  [0.55, -0.55, -0.1],
+  [0.05, -0.6, -0.3],
+]
+
+// 21 landmarks in MediaPipe order: wrist, thumb, index, middle, ring, pinky
+const pose = (thumb, extended) => [
+  [0, 0, 0],
+  ...thumb,
+  ...['index', 'middle', 'ring', 'pinky'].flatMap((f) => (extended.includes(f) ? fingerExtended(f) : fingerCurled(f))),
+]
+
+const allFingers = ['index', 'middle', 'ring', 'pinky']
+const poses = {
+  open: pose(thumbExtended, allFingers),
+  fist: pose(thumbCurled, []),
+  point: pose(thumbCurled, ['index']),
+  pinch: pose(thumbExtended, allFingers),
+}
+// Pinch: index bent forward to meet the thumb tip, the other fingers up
+Object.assign(poses.pinch, {
+  3: [0.62, -0.8, -0.05],
+  4: [0.66, -1.36, -0.12],
+  6: [0.38, -1.35, -0.1],
+  7: [0.5, -1.5, -0.15],
+  8: [0.62, -1.42, -0.15],
+})
+
+const SCALE = 0.12 // palm units to normalized image units
+const FRAME_MS = 1000 / 30
+const round = (v) => Math.round(v * 1e5) / 1e5
+
+// Park-Miller generator, so the jitter is the same on every run
+let seed = 7
+const jitter = () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed / 2147483647 - 0.5) * 0.002
+}
+
+const lerpPose = (a, b, k) => a.map((p, i) => p.map((v, j) => v + (b[i][j] - v) * k))
+const place = (hand, wx, wy) =>
+  hand.map(([x, y, z]) => [round(wx + x * SCALE + jitter()), round(wy + y * SCALE + jitter()), round(z * SCALE)])
+
+// Keyframes of { t, pose, x, y } (wrist position); poses and position are interpolated linearly
+function recording(keys, handedness = 'Right') {
+  const frames = []
+  const end = keys[keys.length - 1].t
+  for (let t = 0; t <= end + 1e-6; t += FRAME_MS) {
+    let i = 0
+    while (i < keys.length - 2 && keys[i + 1].t < t) i++
+    const a = keys[i]
+    const b = keys[i + 1] ?? a
+    const k = b.t > a.t ? Math.min(1, (t - a.t) / (b.t - a.t)) : 0
+    const hand = lerpPose(poses[a.pose], poses[b.pose], k)
+    const landmarks = place(hand, a.x + (b.x - a.x) * k, a.y + (b.y - a.y) * k)
+    frames.push({ t: round(t), hands: [{ landmarks, handedness }] })
+  }
+  // Fixed date so the output doesn't change between runs
+  return { version: 1, createdAt: '2026-10-19T00:00:00.000Z', durationMs: frames[frames.length - 1].t, frames }
+}
+
+const hold = (name) =>
+  recording([
+    { t: 0, pose: name, x: 0.5, y: 0.7 },
+    { t: 500, pose: name, x: 0.5, y: 0.7 },
+  ])
+
+const fixtures = {
+  'open-palm': hold('open'),
+  fist: hold('fist'),
+  pinch: hold('pinch'),
+  point: hold('point'),
+  'swipe-right': recording([
+    { t: 0, pose: 'open', x: 0.3, y: 0.7 },
+    { t: 200, pose: 'open', x: 0.3, y: 0.7 },
+    { t: 450, pose: 'open', x: 0.7, y: 0.7 },
+    { t: 700, pose: 'open', x: 0.7, y: 0.7 },
+  ]),
+  // Open hand, closes to a fist, a fast drag towards image x = 1, holds, opens again
+  'fist-pan': recording([
+    { t: 0, pose: 'open', x: 0.35, y: 0.7 },
+    { t: 400, pose: 'open', x: 0.35, y: 0.7 },
+    { t: 600, pose: 'fist', x: 0.35, y: 0.7 },
+    { t: 800, pose: 'fist', x: 0.35, y: 0.7 },
+    { t: 1050, pose: 'fist', x: 0.65, y: 0.7 },
+    { t: 1400, pose: 'fist', x: 0.65, y: 0.7 },
+    { t: 1600, pose: 'open', x: 0.65, y: 0.7 },
+    { t: 2000, pose: 'open', x: 0.65, y: 0.7 },
+  ]),
+}
+
+mkdirSync(outDir, { recursive: true })
+for (const [name, fixture] of Object.entries(fixtures)) {
+  writeFileSync(`${outDir}/${name}.json`, JSON.stringify(fixture))
+}
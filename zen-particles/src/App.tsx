@@ -1,28 +1,106 @@
-import { useState, type ChangeEvent } from 'react'
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
 import { Sparkles } from 'lucide-react'
 import './App.css'
+import { animationStore } from './animation/store'
+import AudioControls from './components/AudioControls'
+import BindingControls from './components/BindingControls'
+import CalibrationControls from './components/CalibrationControls'
+import CameraControls from './components/CameraControls'
+import CaptureControls from './components/CaptureControls'
 import HandTracker from './components/HandTracker'
+import PresetControls from './components/PresetControls'
+import SessionControls from './components/SessionControls'
+import SoundControls from './components/SoundControls'
 import SceneRenderer from './components/ParticleSystem'
-import type { HandControls, SceneMode } from './types'
+import WebcamControls from './components/WebcamControls'
+import { useGesture } from './gestures/useGesture'
+import { zoomProgress } from './input/limits'
+import { useInputControls, type InputSelection } from './input/useInputControls'
+import { createModelSource, releaseModelSource } from './loaders/modelSource'
+import { loaderRegistry } from './loaders/registry'
+import { applyPresetStores, capturePreset, type ScenePreset } from './presets/preset'
+import { readPresetHash } from './presets/share'
+import { useRecording } from './recording/store'
+import { sceneRegistry } from './scenes/registry'
+import { defaultSceneSettings, initialControls } from './scenes/settings'
+import { useSceneModule } from './scenes/useSceneModule'
+import { useSoundscape } from './sound/useSoundscape'
+import type { HandControls, ModelLoadStatus, ModelSource, QualityPreset, SceneMode, SceneSettings } from './types'
+import { defaultQuality } from './utils/quality'
+import { smoothingPresets, type SmoothingPreset } from './utils/signalFilters'
 
-// Default zoomed out for solar system (lower zoom = farther camera)
-const initialControls: HandControls = { zoom: 0.6, panX: 0, panY: 0, hasBothHands: false }
+const modes = sceneRegistry.ids()
 
-const modes: SceneMode[] = ['solar', 'dots', 'model']
+const qualityOptions: QualityPreset[] = ['low', 'medium', 'high']
+const smoothingOptions: SmoothingPreset[] = ['responsive', 'balanced', 'smooth']
+
+const inputOptions: InputSelection[] = ['auto', 'hand', 'mouse', 'touch', 'keyboard', 'gamepad']
+
+// A shared link (#preset=…) starts the session from that preset
+const sharedPreset = readPresetHash(window.location.hash)
+if (sharedPreset) applyPresetStores(sharedPreset, { shared: true })
+const sharedView = sharedPreset && { ...initialControls, ...sharedPreset.view }
 
 function App() {
-  const [controls, setControls] = useState<HandControls>(initialControls)
+  const [neutralControls, setNeutralControls] = useState<HandControls>(sharedView ?? initialControls)
+  const [handControls, setHandControls] = useState<HandControls>(neutralControls)
   const [cameraError, setCameraError] = useState<string | null>(null)
-  const [mode, setMode] = useState<SceneMode>('solar')
-  const [modelUrl, setModelUrl] = useState<string | null>(null)
+  const [inputSelection, setInputSelection] = useState<InputSelection>('auto')
+  const stageRef = useRef<HTMLDivElement | null>(null)
+  const { replay } = useRecording()
+  const { controls, active: activeInput, available: availableInputs } = useInputControls(
+    stageRef,
+    handControls,
+    cameraError === null || replay !== null, // a replay stands in for the camera
+    inputSelection,
+    neutralControls,
+  )
+  const [mode, setMode] = useState<SceneMode>(sharedPreset?.mode ?? 'solar')
+  const [settings, setSettings] = useState<SceneSettings>(() => ({ ...defaultSceneSettings, ...sharedPreset?.scene }))
+  const [modelStatus, setModelStatus] = useState<ModelLoadStatus>({ state: 'idle' })
+  const [quality, setQuality] = useState<QualityPreset>(defaultQuality)
+  const [smoothing, setSmoothing] = useState<SmoothingPreset>('balanced')
+  const { module: sceneModule, error: sceneError, retry: retryScene } = useSceneModule(mode)
+  const ScenePanel = sceneModule?.Panel
+  const SceneOverlay = sceneModule?.Overlay
+
+  const updateSettings = (patch: Partial<SceneSettings>) => setSettings((current) => ({ ...current, ...patch }))
+
+  // Swipe right/left = next/previous mode
+  const stepMode = (step: number) =>
+    setMode((current) => modes[(modes.indexOf(current) + step + modes.length) % modes.length])
+  useGesture('swipeRight', () => stepMode(1))
+  useGesture('swipeLeft', () => stepMode(-1))
+  // Thumbs-up = play/pause the uploaded model's animation. Not the open palm: an open
+  // hand is also the zoom-out pose and ends every fist scrub.
+  useGesture('thumbsUp', () => {
+    if (mode === 'model' && animationStore.getState().clips.length) animationStore.togglePlaying()
+  })
+  useSoundscape(controls, mode)
+
+  // Blob URLs of a replaced upload are released once it is gone
+  const { model } = settings
+  useEffect(
+    () => () => {
+      if (model) releaseModelSource(model)
+    },
+    [model],
+  )
+
+  // Presets without their own upload keep the current one
+  const applyPreset = (preset: ScenePreset, presetModel: ModelSource | null) => {
+    applyPresetStores(preset)
+    setMode(preset.mode)
+    setSettings((current) => ({ ...current, ...preset.scene, model: presetModel ?? current.model }))
+    setNeutralControls({ ...initialControls, ...preset.view })
+  }
 
   const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-    const url = URL.createObjectURL(file)
-    // Store file type for detection
-    const fileType = file.type || file.name.toLowerCase()
-    setModelUrl(url + '|' + fileType) // Pass file type info
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = '' // allow picking the same file again
+    if (!files.length) return
+    // Companion files (.mtl, .bin, textures) can be selected together with the model
+    updateSettings({ model: createModelSource(files) })
     setMode('model')
   }
 
@@ -31,12 +109,21 @@ function App() {
       <div className="title-block">
         <Sparkles size={20} />
         <div>
-          <p className="eyebrow">Close/open hand = zoom | Closed fist + move = pan</p>
-          <h1>DOTS / SOLAR / MODEL</h1>
+          <p className="eyebrow">Close/open hand = zoom | Closed fist + move = pan | Two hands = rotate</p>
+          <h1>DOTS / SOLAR / SHAPES / MODEL</h1>
         </div>
       </div>
 
-      <SceneRenderer controls={controls} mode={mode} modelUrl={modelUrl} />
+      {/* Mouse/touch input listens here; events bubble up from the canvas */}
+      <div ref={stageRef}>
+        <SceneRenderer
+          controls={controls}
+          mode={mode}
+          settings={settings}
+          onModelStatus={setModelStatus}
+          quality={quality}
+        />
+      </div>
 
       <div className="controls glass">
         <div className="controls__row">
@@ -54,14 +141,115 @@ function App() {
             ))}
           </div>
           <label className="file-input-label">
-            <input type="file" accept=".gltf,.glb,.obj,.png,.jpg,.jpeg,.webp" onChange={handleFile} style={{ display: 'none' }} />
+            <input
+              type="file"
+              multiple
+              accept={loaderRegistry.accept()}
+              onChange={handleFile}
+              style={{ display: 'none' }}
+            />
             <span className="shape-btn">Upload Image/Model</span>
           </label>
+          {mode === 'model' && (
+            <button
+              type="button"
+              className={`shape-btn ${settings.particleize ? 'active' : ''}`}
+              onClick={() => updateSettings({ particleize: !settings.particleize })}
+              title="Show the upload as particles; hand zoom scatters and reassembles them"
+            >
+              particle-ize
+            </button>
+          )}
+          {modelStatus.state === 'loading' && (
+            <span>
+              {`Loading ${modelStatus.name}`}
+              {modelStatus.progress !== null ? ` ${Math.round(modelStatus.progress * 100)}%` : '…'}
+            </span>
+          )}
+          {sceneError && (
+            <>
+              <span className="tension-note">{`Couldn't load the ${mode} scene: ${sceneError}`}</span>
+              <button type="button" className="shape-btn compact" onClick={retryScene}>
+                retry
+              </button>
+            </>
+          )}
+          {modelStatus.state === 'error' && (
+            <span className="tension-note">{`${modelStatus.name}: ${modelStatus.message}`}</span>
+          )}
+        </div>
+
+        {ScenePanel && (
+          <ScenePanel
+            settings={settings}
+            onSettingsChange={updateSettings}
+            tension={zoomProgress(controls.zoom)}
+            cameraError={cameraError}
+          />
+        )}
+
+        <CameraControls mode={mode} />
+        <AudioControls />
+        <SoundControls />
+
+        <div className="controls__row">
+          <p className="label">Quality</p>
+          <div className="shape-grid">
+            {qualityOptions.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`shape-btn ${quality === option ? 'active' : ''}`}
+                onClick={() => setQuality(option)}
+                title="Resolution, surface detail, orbit trails and sun bloom"
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="controls__row">
+          <p className="label">Smoothing</p>
+          <div className="shape-grid">
+            {smoothingOptions.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`shape-btn ${smoothing === option ? 'active' : ''}`}
+                onClick={() => setSmoothing(option)}
+                title="Hand tracking filters: less jitter costs more lag"
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="controls__row">
+          <p className="label">Input</p>
+          <div className="shape-grid">
+            {inputOptions.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`shape-btn ${inputSelection === option ? 'active' : ''}`}
+                disabled={option !== 'auto' && !availableInputs.includes(option)}
+                onClick={() => setInputSelection(option)}
+              >
+                {option === 'auto' ? `auto (${activeInput})` : option}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div className="controls__row">
           <p className="label">Status</p>
-          <span>Close/open hand = zoom | Closed fist + move = pan left/right/up/down</span>
+          <span>Close/open hand = zoom | Closed fist + move = pan (orbits the camera with the orbit rig)</span>
+          <span>Two hands: spread = zoom, tilt/twist = rotate, palms together = reset</span>
+          <span>Swipe left/right = previous/next mode</span>
+          {sceneModule?.hint && <span>{sceneModule.hint}</span>}
+          <span>No camera? Wheel/drag, pinch, arrows and +/- or a gamepad work too (0 = reset)</span>
           {cameraError ? <span className="tension-note">{cameraError}</span> : null}
         </div>
         <div className="controls__row">
@@ -69,17 +257,32 @@ function App() {
           <div className="tension-bar">
             <div
               className="tension-fill"
-              style={{ width: `${Math.min(Math.max((controls.zoom - 0.5) / 2, 0), 1) * 100}%` }}
+              style={{ width: `${zoomProgress(controls.zoom) * 100}%` }}
             />
           </div>
           <p className="label">Pan X/Y</p>
           <span>{`${controls.panX.toFixed(2)} / ${controls.panY.toFixed(2)}`}</span>
+          <p className="label">Rotate</p>
+          <span>{`${((controls.rotationY * 180) / Math.PI).toFixed(0)}° / ${((controls.rotationZ * 180) / Math.PI).toFixed(0)}°`}</span>
         </div>
+        <WebcamControls />
+        <CalibrationControls />
+        <BindingControls />
+        <SessionControls />
+        <CaptureControls />
+        <PresetControls
+          model={model}
+          onCapture={(name) => capturePreset(name, { mode, settings, view: controls })}
+          onApply={applyPreset}
+        />
       </div>
 
+      {SceneOverlay && <SceneOverlay />}
+
       <HandTracker
-        onControls={setControls}
+        onControls={setHandControls}
         onError={setCameraError}
+        filterConfig={smoothingPresets[smoothing]}
       />
     </div>
   )
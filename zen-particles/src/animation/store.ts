@@ -0,0 +1,54 @@
+import { createStore, useStore } from '../utils/store'
+
+export interface ClipInfo {
+  name: string
+  duration: number // seconds
+}
+
+export interface AnimationState {
+  clips: ClipInfo[]
+  clipIndex: number
+  time: number // seconds into the current clip
+  playing: boolean
+  autoSpin: boolean
+  seekVersion: number // bumped by user seeks so the mixer can tell them from its own ticks
+}
+
+const { getState, setState, subscribe } = createStore<AnimationState>({
+  clips: [],
+  clipIndex: 0,
+  time: 0,
+  playing: true,
+  autoSpin: true,
+  seekVersion: 0,
+})
+
+const clampTime = (time: number) => {
+  const duration = getState().clips[getState().clipIndex]?.duration ?? 0
+  return duration > 0 ? Math.min(Math.max(time, 0), duration) : 0
+}
+
+export const animationStore = {
+  getState,
+  subscribe,
+
+  // A new upload replaces the clip list and starts its first clip from the top
+  setClips: (clips: ClipInfo[]) => setState({ clips, clipIndex: 0, time: 0, seekVersion: getState().seekVersion + 1 }),
+  selectClip: (clipIndex: number) => {
+    if (clipIndex === getState().clipIndex || !getState().clips[clipIndex]) return
+    setState({ clipIndex, time: 0, seekVersion: getState().seekVersion + 1 })
+  },
+  seek: (time: number) => setState({ time: clampTime(time), seekVersion: getState().seekVersion + 1 }),
+  // Playback position reported by the mixer; callers throttle this
+  tick: (time: number) => {
+    if (Math.abs(time - getState().time) > 1e-3) setState({ time })
+  },
+  play: () => setState({ playing: true }),
+  pause: () => setState({ playing: false }),
+  togglePlaying: () => setState({ playing: !getState().playing }),
+  setAutoSpin: (autoSpin: boolean) => setState({ autoSpin }),
+}
+
+export function useAnimation() {
+  return useStore(animationStore)
+}
@@ -0,0 +1,65 @@
+import type { AudioLevels } from '../types'
+
+const FFT_SIZE = 2048
+const BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+  level: [20, 16000],
+} as const
+
+// A beat is bass energy jumping well above its recent average
+const BEAT_WINDOW = 1.2 // seconds the average follows
+const BEAT_RATIO = 1.35
+const BEAT_FLOOR = 0.25 // ignore "beats" in near silence
+const BEAT_COOLDOWN = 0.18 // seconds; faster than ~330 bpm is noise
+const BEAT_DECAY = 0.3 // seconds for the beat pulse to fade
+
+// Band energies and beats from any audio node. `sample` is called once per
+// rendered frame with that frame's dt.
+export function createAudioAnalyser(context: AudioContext, source: AudioNode) {
+  const analyser = context.createAnalyser()
+  analyser.fftSize = FFT_SIZE
+  analyser.smoothingTimeConstant = 0.6
+  source.connect(analyser)
+
+  const bins = new Uint8Array(analyser.frequencyBinCount)
+  const hzPerBin = context.sampleRate / FFT_SIZE
+  const ranges = Object.fromEntries(
+    Object.entries(BANDS).map(([band, [low, high]]) => [
+      band,
+      [Math.max(1, Math.floor(low / hzPerBin)), Math.min(bins.length, Math.ceil(high / hzPerBin))],
+    ]),
+  ) as Record<keyof typeof BANDS, [number, number]>
+
+  // Byte frequency data is already dB-scaled, so a plain mean reads like loudness
+  const energy = ([from, to]: [number, number]) => {
+    let sum = 0
+    for (let i = from; i < to; i++) sum += bins[i]
+    return to > from ? sum / (to - from) / 255 : 0
+  }
+
+  let average = 0
+  let beat = 0
+  let cooldown = 0
+
+  const sample = (dt: number): AudioLevels => {
+    analyser.getByteFrequencyData(bins)
+    const bass = energy(ranges.bass)
+    beat = Math.max(0, beat - dt / BEAT_DECAY)
+    cooldown -= dt
+    if (cooldown <= 0 && bass > BEAT_FLOOR && bass > average * BEAT_RATIO) {
+      beat = 1
+      cooldown = BEAT_COOLDOWN
+    }
+    average += (bass - average) * Math.min(1, dt / BEAT_WINDOW)
+    return { bass, mid: energy(ranges.mid), treble: energy(ranges.treble), level: energy(ranges.level), beat }
+  }
+
+  return {
+    sample,
+    dispose: () => source.disconnect(analyser),
+  }
+}
+
+export type AudioAnalyser = ReturnType<typeof createAudioAnalyser>
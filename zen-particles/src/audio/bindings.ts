@@ -0,0 +1,26 @@
+import { zoomProgress } from '../input/limits'
+import type { AudioLevels, HandControls } from '../types'
+import { audioStore, type AudioTarget } from './store'
+
+const SIZE_BOOST = 1.2 // particle size grows by up to this fraction
+const HUE_SHIFT = Math.PI / 2 // radians of hue rotation at full signal
+const SUN_BOOST = 1.5 // extra sun emissive intensity, as a fraction
+
+// The band bound to `target` this frame, or null when it is unbound or no audio is on
+export function audioSignal(audio: AudioLevels | null, target: AudioTarget) {
+  const band = audioStore.getState().bindings[target]
+  return audio && band ? audio[band] : null
+}
+
+// How the controls and bound audio move particle scenes. Expansion follows zoom
+// unless a gesture binding sets it; bound audio replaces both, leaving the hand
+// with the camera. Audio and gesture hue shifts add up.
+export function particleResponse(controls: HandControls, audio: AudioLevels | null) {
+  return {
+    expansion: audioSignal(audio, 'expansion') ?? controls.expansion ?? zoomProgress(controls.zoom),
+    size: 1 + (audioSignal(audio, 'size') ?? 0) * SIZE_BOOST,
+    hue: (audioSignal(audio, 'color') ?? 0) * HUE_SHIFT + (controls.hue ?? 0),
+  }
+}
+
+export const sunResponse = (audio: AudioLevels | null) => 1 + (audioSignal(audio, 'sun') ?? 0) * SUN_BOOST
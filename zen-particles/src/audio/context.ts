@@ -0,0 +1,9 @@
+let context: AudioContext | null = null
+
+// One AudioContext for analysis and synthesis. Browsers only start it after a user
+// gesture, so call this from (or after) a click.
+export async function resumeAudioContext() {
+  context ??= new AudioContext()
+  if (context.state === 'suspended') await context.resume()
+  return context
+}
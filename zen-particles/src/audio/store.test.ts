@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { audioStore } from './store'
+
+const analyser = { dispose: vi.fn(), sample: vi.fn() }
+
+vi.mock('./context', () => ({
+  resumeAudioContext: async () => ({ createMediaStreamSource: () => ({}) }),
+}))
+vi.mock('./analyser', () => ({ createAudioAnalyser: () => analyser }))
+
+// A microphone stream whose tracks record whether they were stopped
+function createStream(label: string) {
+  const track = { label, stopped: false, stop: () => (track.stopped = true) }
+  return { track, stream: { getTracks: () => [track], getAudioTracks: () => [track] } }
+}
+
+describe('audioStore.startMic', () => {
+  let grant: ((stream: unknown) => void)[]
+
+  beforeEach(() => {
+    grant = []
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: () => new Promise((resolve) => grant.push(resolve)) },
+    })
+  })
+  afterEach(() => {
+    audioStore.stop()
+    vi.unstubAllGlobals()
+  })
+
+  // Lets the pending start reach getUserMedia past the awaited context
+  const settle = () => new Promise((resolve) => setTimeout(resolve))
+
+  it('closes a microphone granted after Stop was pressed', async () => {
+    const { track, stream } = createStream('Built-in')
+    const started = audioStore.startMic()
+    await settle()
+    audioStore.stop()
+    grant[0](stream)
+    await started
+
+    expect(track.stopped).toBe(true)
+    expect(audioStore.getState().source).toBe('off')
+  })
+
+  it('keeps only the latest of two overlapping starts', async () => {
+    const first = createStream('First')
+    const second = createStream('Second')
+    const starts = [audioStore.startMic(), audioStore.startMic()]
+    await settle()
+    grant[1](second.stream)
+    grant[0](first.stream)
+    await Promise.all(starts)
+
+    expect(first.track.stopped).toBe(true)
+    expect(second.track.stopped).toBe(false)
+    expect(audioStore.getState()).toMatchObject({ source: 'mic', name: 'Second' })
+  })
+})
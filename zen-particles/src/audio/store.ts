@@ -0,0 +1,138 @@
+import type { AudioLevels } from '../types'
+import { createStore, useStore } from '../utils/store'
+import { createAudioAnalyser, type AudioAnalyser } from './analyser'
+import { resumeAudioContext } from './context'
+
+export type AudioBand = keyof AudioLevels
+
+// What the audio can drive; each target follows one band or stays with the hand
+export type AudioTarget = 'expansion' | 'size' | 'color' | 'sun'
+
+export type AudioBindings = Record<AudioTarget, AudioBand | null>
+
+export const defaultAudioBindings: AudioBindings = {
+  expansion: null,
+  size: 'beat',
+  color: 'treble',
+  sun: 'bass',
+}
+
+export interface AudioState {
+  source: 'off' | 'mic' | 'file'
+  name: string | null // file name, or the microphone's label
+  bindings: AudioBindings
+  error: string | null
+}
+
+const { getState, setState, subscribe } = createStore<AudioState>({
+  source: 'off',
+  name: null,
+  bindings: defaultAudioBindings,
+  error: null,
+})
+let analyser: AudioAnalyser | null = null
+let latest: AudioLevels | null = null
+let release = () => {}
+// Bumped by every start and stop, so a start still waiting on the browser can tell
+// it was superseded and release what it opened instead of replacing the newer source
+let startCount = 0
+
+function stopSource() {
+  analyser?.dispose()
+  analyser = null
+  latest = null
+  release()
+  release = () => {}
+}
+
+const fail = (err: unknown, fallback: string) =>
+  setState({ source: 'off', name: null, error: err instanceof Error ? err.message : fallback })
+
+export const audioStore = {
+  getState,
+  subscribe,
+
+  // The microphone only feeds the analyser; playing it back would feed back
+  startMic: async () => {
+    const id = ++startCount
+    const superseded = () => id !== startCount
+    let stream: MediaStream | null = null
+    const discard = () => stream?.getTracks().forEach((t) => t.stop())
+    try {
+      const audio = await resumeAudioContext()
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      })
+      if (superseded()) {
+        discard()
+        return
+      }
+      const next = createAudioAnalyser(audio, audio.createMediaStreamSource(stream))
+      stopSource()
+      analyser = next
+      release = discard
+      setState({ source: 'mic', name: stream.getAudioTracks()[0]?.label || 'Microphone', error: null })
+    } catch (err) {
+      discard()
+      if (superseded()) return
+      stopSource()
+      fail(err, 'Could not open the microphone')
+    }
+  },
+  // Files play (looped) through the speakers while they are analysed
+  loadFile: async (file: File) => {
+    const id = ++startCount
+    const superseded = () => id !== startCount
+    const url = URL.createObjectURL(file)
+    const element = new Audio(url)
+    element.loop = true
+    let node: MediaElementAudioSourceNode | null = null
+    const discard = () => {
+      element.pause()
+      node?.disconnect()
+      URL.revokeObjectURL(url)
+    }
+    try {
+      const audio = await resumeAudioContext()
+      if (superseded()) {
+        discard()
+        return
+      }
+      node = audio.createMediaElementSource(element)
+      node.connect(audio.destination)
+      await element.play()
+      if (superseded()) {
+        discard()
+        return
+      }
+      const next = createAudioAnalyser(audio, node)
+      stopSource()
+      analyser = next
+      release = discard
+      setState({ source: 'file', name: file.name, error: null })
+    } catch (err) {
+      discard()
+      if (superseded()) return
+      stopSource()
+      fail(err, `Could not play ${file.name}`)
+    }
+  },
+  stop: () => {
+    startCount++
+    stopSource()
+    setState({ source: 'off', name: null })
+  },
+  setBinding: (target: AudioTarget, band: AudioBand | null) =>
+    setState({ bindings: { ...getState().bindings, [target]: band } }),
+
+  sample: (dt: number) => {
+    latest = analyser?.sample(dt) ?? null
+    return latest
+  },
+  // Levels of the last rendered frame, for meters
+  getLevels: () => latest,
+}
+
+export function useAudio() {
+  return useStore(audioStore)
+}
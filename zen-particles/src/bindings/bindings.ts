@@ -0,0 +1,131 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { clamp01, distance3d, INDEX_TIP, MIDDLE_MCP, palmSize, THUMB_TIP, WRIST } from '../gestures/landmarks'
+import { CONTROL_LIMITS } from '../input/limits'
+
+// What one hand can express. Signed channels rest at 0 and span -1..1; the others span 0..1.
+export type InputChannel = 'tension' | 'wristX' | 'wristY' | 'pinch' | 'roll'
+
+// What a binding can drive: the camera controls, or scene parameters directly
+export type BindingTarget = 'zoom' | 'panX' | 'panY' | 'rotationY' | 'rotationZ' | 'expansion' | 'timeScale' | 'hue'
+
+export type BindingCurve = 'linear' | 'smooth' | 'square' | 'sqrt'
+
+export interface GestureBinding {
+  channel: InputChannel
+  target: BindingTarget
+  min: number // output at the channel's low end (full negative for signed channels)
+  max: number // output at the channel's high end
+  curve: BindingCurve
+  invert: boolean
+  deadzone: number // 0..1 of the channel ignored at rest
+  // Only while the fist is closed; wrist channels then measure the drag since it
+  // closed. Otherwise the target holds its value (pan eases back to centre).
+  whileFist: boolean
+}
+
+export interface BindingProfile {
+  id: string
+  name: string
+  builtIn?: boolean
+  bindings: GestureBinding[]
+}
+
+export const inputChannels: InputChannel[] = ['tension', 'wristX', 'wristY', 'pinch', 'roll']
+
+export const bindingCurves: BindingCurve[] = ['linear', 'smooth', 'square', 'sqrt']
+
+export const signedChannels: Record<InputChannel, boolean> = {
+  tension: false,
+  wristX: true,
+  wristY: true,
+  pinch: false,
+  roll: true,
+}
+
+// Natural range of each target, used for new bindings
+export const bindingTargets: Record<BindingTarget, { min: number; max: number }> = {
+  zoom: CONTROL_LIMITS.zoom,
+  panX: CONTROL_LIMITS.pan,
+  panY: CONTROL_LIMITS.pan,
+  rotationY: { min: -Math.PI / 2, max: Math.PI / 2 },
+  rotationZ: { min: -Math.PI / 4, max: Math.PI / 4 },
+  expansion: { min: 0, max: 1 },
+  timeScale: { min: 0, max: 4 },
+  hue: { min: 0, max: Math.PI * 2 },
+}
+
+const curves: Record<BindingCurve, (x: number) => number> = {
+  linear: (x) => x,
+  smooth: (x) => x * x * (3 - 2 * x),
+  square: (x) => x * x,
+  sqrt: (x) => Math.sqrt(x),
+}
+
+const PINCH_OPEN = 1.2 // thumb-index distance, in palm sizes, that counts as fully open
+const ROLL_RANGE = Math.PI / 2 // hand tilt for a full roll signal
+
+// Channel values of one hand; wrist channels are the offset from the frame centre (up = positive)
+export function readChannels(hand: NormalizedLandmark[], tension: number): Record<InputChannel, number> {
+  const wrist = hand[WRIST]
+  const knuckle = hand[MIDDLE_MCP]
+  const clampSigned = (value: number) => Math.min(Math.max(value, -1), 1)
+  return {
+    tension,
+    wristX: clampSigned((wrist.x - 0.5) * 2),
+    wristY: clampSigned((0.5 - wrist.y) * 2),
+    pinch: clamp01(distance3d(hand[THUMB_TIP], hand[INDEX_TIP]) / palmSize(hand) / PINCH_OPEN),
+    roll: clampSigned(Math.atan2(knuckle.x - wrist.x, wrist.y - knuckle.y) / ROLL_RANGE),
+  }
+}
+
+// Deadzone, invert and curve in channel units, then the output range
+export function applyBinding(binding: GestureBinding, value: number) {
+  const signed = signedChannels[binding.channel]
+  const deadzone = Math.min(Math.max(binding.deadzone, 0), 0.99)
+  if (signed) {
+    const magnitude = Math.min(Math.abs(value), 1)
+    const live = magnitude <= deadzone ? 0 : (magnitude - deadzone) / (1 - deadzone)
+    const shaped = Math.sign(value) * curves[binding.curve](live) * (binding.invert ? -1 : 1)
+    return (binding.min + binding.max) / 2 + (shaped * (binding.max - binding.min)) / 2
+  }
+  const clamped = clamp01(binding.invert ? 1 - value : value)
+  const live = clamped <= deadzone ? 0 : (clamped - deadzone) / (1 - deadzone)
+  return binding.min + curves[binding.curve](live) * (binding.max - binding.min)
+}
+
+export const createBinding = (
+  channel: InputChannel,
+  target: BindingTarget,
+  patch: Partial<GestureBinding> = {},
+): GestureBinding => ({
+  channel,
+  target,
+  ...bindingTargets[target],
+  curve: 'linear',
+  invert: false,
+  deadzone: 0,
+  whileFist: false,
+  ...patch,
+})
+
+// Matches the original hard-coded mapping: tension 0..1 => zoom 0.5..2.5, closed fist
+// + wrist movement => pan, full pan at the calibrated reach
+export const defaultBindingProfile: BindingProfile = {
+  id: 'default',
+  name: 'default',
+  builtIn: true,
+  bindings: [
+    createBinding('tension', 'zoom'),
+    createBinding('wristX', 'panX', { whileFist: true }),
+    createBinding('wristY', 'panY', { whileFist: true }),
+  ],
+}
+
+export const invertedZoomProfile: BindingProfile = {
+  id: 'inverted-zoom',
+  name: 'inverted zoom',
+  builtIn: true,
+  bindings: defaultBindingProfile.bindings.map((b) => (b.target === 'zoom' ? { ...b, invert: true } : b)),
+}
+
+export const builtInProfiles = [defaultBindingProfile, invertedZoomProfile]
@@ -0,0 +1,95 @@
+import { createStore, persisted, useStore } from '../utils/store'
+import {
+  bindingCurves,
+  bindingTargets,
+  builtInProfiles,
+  createBinding,
+  defaultBindingProfile,
+  inputChannels,
+  type BindingProfile,
+  type GestureBinding,
+} from './bindings'
+
+export interface BindingsState {
+  profiles: BindingProfile[] // built-ins first, then the user's own
+  activeId: string
+}
+
+// Only the user's own profiles are stored; the built-ins come from the code
+interface StoredBindings {
+  activeId: string
+  custom: BindingProfile[]
+}
+
+const storage = persisted<StoredBindings>('zen-particles.bindings')
+
+// Stored profiles are checked binding by binding; anything malformed is dropped
+const isBinding = (b: Partial<GestureBinding>) =>
+  inputChannels.includes(b.channel!) &&
+  b.target !== undefined &&
+  b.target in bindingTargets &&
+  bindingCurves.includes(b.curve!) &&
+  [b.min, b.max, b.deadzone].every((n) => typeof n === 'number' && Number.isFinite(n)) &&
+  typeof b.invert === 'boolean' &&
+  typeof b.whileFist === 'boolean'
+
+function readState(stored: Partial<StoredBindings>): BindingsState {
+  const custom = (stored.custom ?? [])
+    .filter((p) => typeof p.id === 'string' && typeof p.name === 'string' && Array.isArray(p.bindings))
+    .map((p) => ({ id: p.id, name: p.name, bindings: p.bindings.filter(isBinding) }))
+  const profiles = [...builtInProfiles, ...custom]
+  const activeId = profiles.some((p) => p.id === stored.activeId) ? stored.activeId! : defaultBindingProfile.id
+  return { profiles, activeId }
+}
+
+const { getState, setState, subscribe } = createStore<BindingsState>(
+  storage.load(readState, { profiles: builtInProfiles, activeId: defaultBindingProfile.id }),
+  ({ profiles, activeId }) => storage.save({ activeId, custom: profiles.filter((p) => !p.builtIn) }),
+)
+
+const activeProfile = () => {
+  const { profiles, activeId } = getState()
+  return profiles.find((p) => p.id === activeId) ?? defaultBindingProfile
+}
+
+// Built-ins are read-only: editing one saves an edited copy and switches to it
+function editBindings(edit: (bindings: GestureBinding[]) => GestureBinding[]) {
+  const current = activeProfile()
+  if (current.builtIn) {
+    const copy: BindingProfile = { id: `custom-${Date.now()}`, name: `${current.name} (edited)`, bindings: edit(current.bindings) }
+    setState({ profiles: [...getState().profiles, copy], activeId: copy.id })
+  } else {
+    const edited = { ...current, bindings: edit(current.bindings) }
+    setState({ profiles: getState().profiles.map((p) => (p.id === current.id ? edited : p)) })
+  }
+}
+
+export const bindingsStore = {
+  getState,
+  subscribe,
+  getActive: activeProfile,
+
+  select: (id: string) => setState({ activeId: id }),
+  updateBinding: (index: number, patch: Partial<GestureBinding>) =>
+    editBindings((bindings) =>
+      bindings.map((b, i) => {
+        if (i !== index) return b
+        // A new target starts from that target's natural range
+        const retargeted = patch.target && patch.target !== b.target ? bindingTargets[patch.target] : null
+        return { ...b, ...retargeted, ...patch }
+      }),
+    ),
+  addBinding: () => editBindings((bindings) => [...bindings, createBinding('pinch', 'expansion')]),
+  removeBinding: (index: number) => editBindings((bindings) => bindings.filter((_, i) => i !== index)),
+  deleteProfile: (id: string) => {
+    const { profiles, activeId } = getState()
+    setState({
+      profiles: profiles.filter((p) => p.id !== id || p.builtIn),
+      activeId: activeId === id ? defaultBindingProfile.id : activeId,
+    })
+  },
+}
+
+export function useBindings() {
+  return useStore(bindingsStore)
+}
@@ -0,0 +1,80 @@
+import type { OpennessRange } from '../gestures/landmarks'
+import { createStore, persisted, useStore } from '../utils/store'
+
+export type Handedness = 'Left' | 'Right'
+
+export interface CalibrationProfile {
+  version: 1
+  openness: OpennessRange // openness ratio range from fist to open hand
+  fistThreshold: number // tension (0..1) above which the fist counts as closed
+  panReach: { x: number; y: number } // wrist travel (normalized image units) for full pan
+  dominantHand: Handedness
+  setupDone: boolean // wizard completed or skipped; false opens it on load
+}
+
+// Matches the original hard-coded mapping: palmSize * 1.6, tension > 0.7, pan sensitivity 6.0
+export const defaultProfile: CalibrationProfile = {
+  version: 1,
+  openness: { open: 1.6, fist: 0 },
+  fistThreshold: 0.7,
+  panReach: { x: 1 / 6, y: 1 / 6 },
+  dominantHand: 'Right',
+  setupDone: false,
+}
+
+const storage = persisted<CalibrationProfile>('zen-particles.calibration')
+
+const loadProfile = () =>
+  storage.load<CalibrationProfile>((stored) => {
+    if (stored.version !== 1) return defaultProfile
+    return {
+      ...defaultProfile,
+      ...stored,
+      openness: { ...defaultProfile.openness, ...stored.openness },
+      panReach: { ...defaultProfile.panReach, ...stored.panReach },
+    }
+  }, defaultProfile)
+
+function saveProfile(profile: CalibrationProfile) {
+  if (profile === defaultProfile) storage.remove()
+  else storage.save(profile)
+}
+
+export interface CalibrationState {
+  profile: CalibrationProfile
+  wizardOpen: boolean
+  // Sensitivity borrowed from a shared preset link: used for this session but not
+  // saved over the visitor's own calibration unless they keep it
+  borrowed: boolean
+}
+
+const initialProfile = loadProfile()
+const { getState, setState, subscribe } = createStore<CalibrationState>(
+  { profile: initialProfile, wizardOpen: !initialProfile.setupDone, borrowed: false },
+  (next, previous) => {
+    if (next.profile !== previous.profile && !next.borrowed) saveProfile(next.profile)
+  },
+)
+
+export const calibrationStore = {
+  getState,
+  subscribe,
+  // Edits make the profile the visitor's own, so a borrowed one is saved from then on
+  updateProfile: (patch: Partial<CalibrationProfile>) =>
+    setState({ profile: { ...getState().profile, ...patch }, borrowed: false }),
+  resetProfile: () => setState({ profile: defaultProfile, borrowed: false }),
+  borrowProfile: (patch: Partial<CalibrationProfile>) =>
+    setState({ profile: { ...getState().profile, ...patch }, borrowed: true }),
+  keepBorrowed: () => {
+    saveProfile(getState().profile)
+    setState({ borrowed: false })
+  },
+  restoreOwn: () => setState({ profile: loadProfile(), borrowed: false }),
+  openWizard: () => setState({ wizardOpen: true }),
+  skipWizard: () => setState({ profile: { ...getState().profile, setupDone: true }, wizardOpen: false, borrowed: false }),
+  completeWizard: (profile: CalibrationProfile) => setState({ profile, wizardOpen: false, borrowed: false }),
+}
+
+export function useCalibration() {
+  return useStore(calibrationStore)
+}
@@ -0,0 +1,108 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { WRIST, computeTension, opennessRatio } from '../gestures/landmarks'
+import type { CalibrationProfile, Handedness } from './profile'
+
+export type CalibrationStep = 'open' | 'fist' | 'reach' | 'done'
+
+export const stepInstructions: Record<CalibrationStep, string> = {
+  open: 'Show an open hand, fingers spread',
+  fist: 'Now make a tight fist',
+  reach: 'Keep the fist closed and move it to the edges of your comfortable reach',
+  done: 'Calibration complete',
+}
+
+// How long each step collects samples while a hand is visible
+const STEP_DURATION_MS: Record<CalibrationStep, number> = {
+  open: 1500,
+  fist: 1500,
+  reach: 4000,
+  done: 0,
+}
+
+const NEXT_STEP: Record<CalibrationStep, CalibrationStep> = {
+  open: 'fist',
+  fist: 'reach',
+  reach: 'done',
+  done: 'done',
+}
+
+export interface CalibrationSample {
+  landmarks: NormalizedLandmark[]
+  handedness?: Handedness
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(Math.floor(sorted.length * p), sorted.length - 1)] ?? 0
+}
+
+// Pure derivation so recorded samples can be replayed into the same profile
+export function deriveProfile(
+  samples: Record<Exclude<CalibrationStep, 'done'>, CalibrationSample[]>,
+  base: CalibrationProfile,
+): CalibrationProfile {
+  const openRatios = samples.open.map((s) => opennessRatio(s.landmarks))
+  const fistRatios = samples.fist.map((s) => opennessRatio(s.landmarks))
+  const open = openRatios.length ? median(openRatios) : base.openness.open
+  const fist = fistRatios.length ? Math.min(median(fistRatios), open - 0.2) : base.openness.fist
+  const openness = { open, fist }
+
+  // Threshold sits a bit below the weakest fist seen, so a relaxed fist still pans
+  const fistTensions = samples.fist.map((s) => computeTension(s.landmarks, openness))
+  const fistThreshold = fistTensions.length
+    ? Math.min(Math.max(percentile(fistTensions, 0.1) * 0.8, 0.4), 0.9)
+    : base.fistThreshold
+
+  const xs = samples.reach.map((s) => s.landmarks[WRIST].x)
+  const ys = samples.reach.map((s) => s.landmarks[WRIST].y)
+  const panReach = xs.length
+    ? {
+        x: Math.max((Math.max(...xs) - Math.min(...xs)) / 2, 0.05),
+        y: Math.max((Math.max(...ys) - Math.min(...ys)) / 2, 0.05),
+      }
+    : base.panReach
+
+  const all = [...samples.open, ...samples.fist, ...samples.reach]
+  const lefts = all.filter((s) => s.handedness === 'Left').length
+  const rights = all.filter((s) => s.handedness === 'Right').length
+  const dominantHand: Handedness = lefts === rights ? base.dominantHand : lefts > rights ? 'Left' : 'Right'
+
+  return { ...base, openness, fistThreshold, panReach, dominantHand, setupDone: true }
+}
+
+// Step-by-step sample collector driven by the tracker's frame loop
+export function createCalibrationSession(base: CalibrationProfile) {
+  const samples: Record<Exclude<CalibrationStep, 'done'>, CalibrationSample[]> = { open: [], fist: [], reach: [] }
+  let step: CalibrationStep = 'open'
+  let elapsed = 0
+  let lastTimestamp: number | null = null
+
+  // Returns the profile once the last step finishes
+  const addFrame = (sample: CalibrationSample | null, timestamp: number) => {
+    const dt = lastTimestamp === null ? 0 : timestamp - lastTimestamp
+    lastTimestamp = timestamp
+    if (step === 'done' || !sample) return null
+
+    // Skip the first 300 ms of the hold steps while the hand settles into the pose
+    elapsed += dt
+    if (elapsed > 300 || step === 'reach') samples[step].push(sample)
+
+    if (elapsed >= STEP_DURATION_MS[step]) {
+      step = NEXT_STEP[step]
+      elapsed = 0
+      if (step === 'done') return deriveProfile(samples, base)
+    }
+    return null
+  }
+
+  return {
+    addFrame,
+    getStep: () => step,
+    getProgress: () => (step === 'done' ? 1 : Math.min(elapsed / STEP_DURATION_MS[step], 1)),
+  }
+}
@@ -0,0 +1,31 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CAMERA } from '../scenes/camera'
+import { initialControls } from '../scenes/settings'
+import { createRigs, rewindRigs, type CameraRigType } from './rigs'
+
+// Camera positions for `frames` steps of 1/30 s
+function run(rigs: ReturnType<typeof createRigs>, rig: CameraRigType, frames: number) {
+  const position = new THREE.Vector3()
+  const look = new THREE.Vector3()
+  const target = new THREE.Vector3()
+  return Array.from({ length: frames }, (_, i) => {
+    rigs[rig].update({ controls: initialControls, preset: DEFAULT_CAMERA, target, dt: 1 / 30, time: i / 30 }, position, look)
+    return position.toArray()
+  })
+}
+
+describe('rewindRigs', () => {
+  it.each<CameraRigType>(['fly', 'showcase'])('starts the %s rig over and hands the live motion back', (rig) => {
+    const rigs = createRigs()
+    const fresh = run(createRigs(), rig, 10)
+
+    run(rigs, rig, 250) // however long the live view has run
+    const live = rigs[rig].motion!.get()
+
+    const restore = rewindRigs(rigs)
+    expect(run(rigs, rig, 10)).toEqual(fresh)
+    restore()
+    expect(rigs[rig].motion!.get()).toBe(live)
+  })
+})
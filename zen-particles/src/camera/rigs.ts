@@ -0,0 +1,121 @@
+import * as THREE from 'three'
+import type { CameraPreset } from '../scenes/types'
+import type { HandControls } from '../types'
+
+export type CameraRigType = 'orbit' | 'fly' | 'showcase'
+
+export const DEFAULT_RIG: CameraRigType = 'orbit'
+
+export interface RigInput {
+  controls: HandControls
+  preset: CameraPreset
+  target: THREE.Vector3 // what the camera is framing
+  dt: number
+  time: number
+}
+
+// Turns the controls into a camera position and look-at point for one frame
+export interface CameraRig {
+  update: (input: RigInput, position: THREE.Vector3, look: THREE.Vector3) => void
+  // Motion accumulated frame by frame (flight progress, turntable angle)
+  motion?: { get: () => number; set: (value: number) => void }
+}
+
+const MAX_ELEVATION = THREE.MathUtils.degToRad(75)
+const SHOWCASE_ELEVATION = THREE.MathUtils.degToRad(18)
+const SHOWCASE_SPEED = 0.15 // rad/s turntable
+const FLY_SPEED = 0.08 // rad/s along the flight loop at zoom 1
+
+// Zoom scales the preset's base distance within its limits
+export const rigDistance = (preset: CameraPreset, zoom: number) =>
+  THREE.MathUtils.clamp(preset.baseDist / zoom, preset.minDist, preset.maxDist)
+
+function placeAround(target: THREE.Vector3, distance: number, azimuth: number, elevation: number, out: THREE.Vector3) {
+  return out.set(
+    target.x + Math.sin(azimuth) * Math.cos(elevation) * distance,
+    target.y + Math.sin(elevation) * distance,
+    target.z + Math.cos(azimuth) * Math.cos(elevation) * distance,
+  )
+}
+
+// Pan swings the camera around the target (x = azimuth, y = elevation); two-hand
+// yaw adds to the azimuth and zoom sets the distance
+export function createOrbitRig(): CameraRig {
+  return {
+    update: ({ controls, preset, target }, position, look) => {
+      const azimuth = controls.panX * Math.PI + controls.rotationY
+      placeAround(target, rigDistance(preset, controls.zoom), azimuth, controls.panY * MAX_ELEVATION, position)
+      look.copy(target)
+    },
+  }
+}
+
+// Cruises a looping path that weaves between the preset's near and far limits.
+// Zoom is the throttle and pan turns the head away from the direction of travel.
+export function createFlyRig(): CameraRig {
+  let progress = 0
+  const ahead = new THREE.Vector3()
+  const heading = new THREE.Vector3()
+  const up = new THREE.Vector3(0, 1, 0)
+  const side = new THREE.Vector3()
+
+  const pathPoint = (s: number, preset: CameraPreset, target: THREE.Vector3, out: THREE.Vector3) => {
+    const radius = preset.minDist + (preset.maxDist - preset.minDist) * (0.35 + 0.25 * Math.sin(s * 0.7))
+    return out.set(
+      target.x + Math.cos(s) * radius,
+      target.y + radius * 0.2 * Math.sin(s * 1.3),
+      target.z + Math.sin(s) * radius,
+    )
+  }
+
+  return {
+    motion: {
+      get: () => progress,
+      set: (value) => {
+        progress = value
+      },
+    },
+    update: ({ controls, preset, target, dt }, position, look) => {
+      progress += dt * FLY_SPEED * controls.zoom
+      pathPoint(progress, preset, target, position)
+      heading.subVectors(pathPoint(progress + 0.05, preset, target, ahead), position).normalize()
+      heading.applyAxisAngle(up, -controls.panX * (Math.PI / 2) + controls.rotationY)
+      side.crossVectors(heading, up).normalize()
+      heading.applyAxisAngle(side, controls.panY * (Math.PI / 4))
+      look.copy(position).addScaledVector(heading, preset.baseDist * 0.5)
+    },
+  }
+}
+
+// Fixed framing on a slow turntable; pan is ignored so the view stays composed
+export function createShowcaseRig(): CameraRig {
+  let angle = 0
+  return {
+    motion: {
+      get: () => angle,
+      set: (value) => {
+        angle = value
+      },
+    },
+    update: ({ controls, preset, target, dt }, position, look) => {
+      angle += dt * SHOWCASE_SPEED
+      placeAround(target, rigDistance(preset, controls.zoom), angle + controls.rotationY, SHOWCASE_ELEVATION, position)
+      look.copy(target)
+    },
+  }
+}
+
+export const createRigs = (): Record<CameraRigType, CameraRig> => ({
+  orbit: createOrbitRig(),
+  fly: createFlyRig(),
+  showcase: createShowcaseRig(),
+})
+
+// Starts every rig's accumulated motion from zero, so frame exports don't depend on
+// how long the live view has run; the returned function puts the live motion back
+export function rewindRigs(rigs: Record<CameraRigType, CameraRig>) {
+  const list = Object.values(rigs)
+  const saved = list.map((rig) => rig.motion?.get() ?? 0)
+  list.forEach((rig) => rig.motion?.set(0))
+  return () => list.forEach((rig, i) => rig.motion?.set(saved[i]))
+}
@@ -0,0 +1,39 @@
+import type { SceneMode } from '../types'
+import { createStore, useStore } from '../utils/store'
+import type { CameraRigType } from './rigs'
+
+// Overrides for a scene preset's distance limits; unset sides keep the preset's
+export interface ZoomLimits {
+  minDist?: number
+  maxDist?: number
+}
+
+export interface CameraState {
+  rigs: Partial<Record<SceneMode, CameraRigType>>
+  limits: Partial<Record<SceneMode, ZoomLimits>>
+}
+
+const { getState, setState, subscribe } = createStore<CameraState>({ rigs: {}, limits: {} })
+
+export const cameraStore = {
+  getState,
+  subscribe,
+
+  setRig: (mode: SceneMode, rig: CameraRigType) => setState({ rigs: { ...getState().rigs, [mode]: rig } }),
+  // null clears one side; a side that would cross the other is ignored
+  setLimit: (mode: SceneMode, side: keyof ZoomLimits, value: number | null) => {
+    const current = { ...getState().limits[mode] }
+    if (value === null || !Number.isFinite(value) || value <= 0) delete current[side]
+    else if (side === 'minDist' && current.maxDist !== undefined && value >= current.maxDist) return
+    else if (side === 'maxDist' && current.minDist !== undefined && value <= current.minDist) return
+    else current[side] = value
+    setState({ limits: { ...getState().limits, [mode]: current } })
+  },
+  resetLimits: (mode: SceneMode) => setState({ limits: { ...getState().limits, [mode]: {} } }),
+  // Replaces every mode's rig and limits (loading a preset)
+  restore: (next: CameraState) => setState(next),
+}
+
+export function useCamera() {
+  return useStore(cameraStore)
+}
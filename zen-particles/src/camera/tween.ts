@@ -0,0 +1,29 @@
+import * as THREE from 'three'
+
+const easeInOutCubic = (x: number) => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2)
+
+// Eases the camera from a captured view into a live one. The destination is
+// whatever the rig produces each frame, so moving targets are tracked throughout.
+export function createCameraTween(duration: number) {
+  const fromPosition = new THREE.Vector3()
+  const fromLook = new THREE.Vector3()
+  let startTime = -Infinity
+
+  const start = (time: number, position: THREE.Vector3, look: THREE.Vector3) => {
+    fromPosition.copy(position)
+    fromLook.copy(look)
+    startTime = time
+  }
+
+  // Blends the rig's pose in place; false once the transition is over
+  const apply = (time: number, position: THREE.Vector3, look: THREE.Vector3) => {
+    const progress = (time - startTime) / duration
+    if (progress >= 1) return false
+    const k = easeInOutCubic(Math.max(progress, 0))
+    position.lerpVectors(fromPosition, position, k)
+    look.lerpVectors(fromLook, look, k)
+    return true
+  }
+
+  return { start, apply }
+}
@@ -0,0 +1,135 @@
+import { downloadBlob, fileTimestamp } from '../utils/download'
+import { createStore, useStore } from '../utils/store'
+import { webcamStore } from '../webcam/store'
+import { createVideoCapture, type VideoCapture } from './video'
+import { createZipWriter } from './zip'
+
+// Implemented by the scene renderer, which owns the canvas and the render loop
+export interface CaptureTarget {
+  canvas: HTMLCanvasElement
+  // Renders one still at `scale`× the viewport resolution
+  screenshot: (scale: number) => Promise<Blob>
+  // Renders `count` frames on a fixed 1/fps timestep with the controls frozen,
+  // independent of wall-clock time; the live loop is suspended meanwhile
+  renderFrames: (
+    count: number,
+    fps: number,
+    onFrame: (frame: Blob, index: number) => Promise<void>,
+    signal: AbortSignal,
+  ) => Promise<void>
+  onRender: (listener: () => void) => () => void
+}
+
+export type CaptureKind = 'screenshot' | 'video' | 'sequence'
+
+export interface CaptureState {
+  ready: boolean
+  busy: CaptureKind | null
+  progress: number // 0..1 while exporting a sequence
+  webcam: boolean // a webcam stream is available for the inset
+  error: string | null
+}
+
+const VIDEO_FPS = 60
+const FILE_PREFIX = 'zen-particles'
+
+const { getState, setState, subscribe } = createStore<CaptureState>({
+  ready: false,
+  busy: null,
+  progress: 0,
+  webcam: false,
+  error: null,
+})
+let target: CaptureTarget | null = null
+let webcam: HTMLVideoElement | null = null
+let video: VideoCapture | null = null
+let sequence: AbortController | null = null
+
+const fail = (err: unknown, fallback: string) =>
+  setState({ busy: null, progress: 0, error: err instanceof Error ? err.message : fallback })
+
+export const captureStore = {
+  getState,
+  subscribe,
+
+  attach: (next: CaptureTarget | null) => {
+    if (!next) {
+      video?.cancel()
+      video = null
+      sequence?.abort()
+    }
+    target = next
+    setState({ ready: next !== null, busy: next ? getState().busy : null })
+  },
+  setWebcam: (element: HTMLVideoElement | null) => {
+    webcam = element
+    setState({ webcam: element !== null })
+  },
+
+  screenshot: async (scale: number) => {
+    if (!target || getState().busy) return
+    setState({ busy: 'screenshot', error: null })
+    try {
+      const blob = await target.screenshot(scale)
+      downloadBlob(blob, `${FILE_PREFIX}-${fileTimestamp()}.png`)
+      setState({ busy: null })
+    } catch (err) {
+      fail(err, 'Screenshot failed')
+    }
+  },
+
+  startVideo: ({ pip }: { pip: boolean }) => {
+    if (!target || getState().busy) return
+    try {
+      video = createVideoCapture(target.canvas, {
+        fps: VIDEO_FPS,
+        webcam: pip ? webcam : null,
+        mirror: webcamStore.getState().settings.mirror,
+        onRender: target.onRender,
+      })
+      setState({ busy: 'video', error: null })
+    } catch (err) {
+      fail(err, 'Could not start recording')
+    }
+  },
+  stopVideo: async () => {
+    const finished = video
+    video = null
+    if (!finished) return
+    const blob = await finished.stop()
+    setState({ busy: null })
+    downloadBlob(blob, `${FILE_PREFIX}-${fileTimestamp()}.webm`)
+  },
+
+  // Frames go into a zip as they are rendered, named for ffmpeg's %05d pattern
+  exportSequence: async ({ seconds, fps }: { seconds: number; fps: number }) => {
+    if (!target || getState().busy) return
+    const count = Math.round(seconds * fps)
+    const zip = createZipWriter()
+    const controller = new AbortController()
+    sequence = controller
+    setState({ busy: 'sequence', progress: 0, error: null })
+    try {
+      await target.renderFrames(
+        count,
+        fps,
+        async (frame, index) => {
+          await zip.add(`frame-${String(index).padStart(5, '0')}.png`, frame)
+          setState({ progress: (index + 1) / count })
+        },
+        controller.signal,
+      )
+      if (!controller.signal.aborted) downloadBlob(zip.finish(), `${FILE_PREFIX}-${fileTimestamp()}-${fps}fps.zip`)
+      setState({ busy: null, progress: 0 })
+    } catch (err) {
+      fail(err, 'Frame export failed')
+    } finally {
+      if (sequence === controller) sequence = null
+    }
+  },
+  cancelSequence: () => sequence?.abort(),
+}
+
+export function useCapture() {
+  return useStore(captureStore)
+}
@@ -0,0 +1,86 @@
+// WebM recording of the stage canvas, optionally with the webcam composited in
+// as a picture-in-picture inset
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+const VIDEO_BITRATE = 8_000_000
+const INSET_WIDTH = 0.24 // of the frame width
+const INSET_MARGIN = 16
+
+export function supportedVideoType() {
+  if (typeof MediaRecorder === 'undefined') return null
+  return VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+export interface VideoCaptureOptions {
+  fps: number
+  webcam: HTMLVideoElement | null
+  mirror: boolean // flip the inset like the on-screen preview
+  // Compositing must happen right after each render, while the WebGL buffer is intact
+  onRender: (listener: () => void) => () => void
+}
+
+export function createVideoCapture(source: HTMLCanvasElement, { fps, webcam, mirror, onRender }: VideoCaptureOptions) {
+  const mimeType = supportedVideoType()
+  if (!mimeType) throw new Error('This browser cannot record WebM video')
+
+  let canvas = source
+  let unsubscribe = () => {}
+  if (webcam) {
+    canvas = document.createElement('canvas')
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Could not create the compositing canvas')
+    const draw = () => {
+      if (canvas.width !== source.width || canvas.height !== source.height) {
+        canvas.width = source.width
+        canvas.height = source.height
+      }
+      context.drawImage(source, 0, 0)
+      if (webcam.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return
+      const width = canvas.width * INSET_WIDTH
+      const height = width * (webcam.videoHeight / webcam.videoWidth || 0.75)
+      const x = canvas.width - width - INSET_MARGIN
+      const y = canvas.height - height - INSET_MARGIN
+      // Same orientation as the on-screen preview
+      context.save()
+      context.translate(mirror ? x + width : x, y)
+      context.scale(mirror ? -1 : 1, 1)
+      context.drawImage(webcam, 0, 0, width, height)
+      context.restore()
+      context.strokeStyle = 'rgba(255, 255, 255, 0.6)'
+      context.lineWidth = 2
+      context.strokeRect(x, y, width, height)
+    }
+    draw()
+    unsubscribe = onRender(draw)
+  }
+
+  const stream = canvas.captureStream(fps)
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data)
+  }
+  recorder.start(1000)
+
+  const release = () => {
+    unsubscribe()
+    stream.getTracks().forEach((t) => t.stop())
+  }
+
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          release()
+          resolve(new Blob(chunks, { type: 'video/webm' }))
+        }
+        recorder.stop()
+      }),
+    cancel: () => {
+      recorder.onstop = release
+      if (recorder.state !== 'inactive') recorder.stop()
+    },
+  }
+}
+
+export type VideoCapture = ReturnType<typeof createVideoCapture>
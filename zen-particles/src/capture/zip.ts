@@ -0,0 +1,73 @@
+// Minimal ZIP writer for frame sequences. Entries are stored uncompressed: PNGs
+// are already compressed, and the frames stay as Blobs instead of one huge buffer.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const DOS_DATE_1980 = 0x21 // 1980-01-01; entry times are not meaningful here
+
+type Entry = { name: Uint8Array<ArrayBuffer>; data: Blob; crc: number; offset: number }
+
+export function createZipWriter() {
+  const entries: Entry[] = []
+  const parts: BlobPart[] = []
+  let offset = 0
+
+  const add = async (name: string, data: Blob) => {
+    const encodedName = new TextEncoder().encode(name)
+    const crc = crc32(new Uint8Array(await data.arrayBuffer()))
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true) // local file header
+    header.setUint16(4, 20, true) // version needed
+    header.setUint16(10, 0, true) // time
+    header.setUint16(12, DOS_DATE_1980, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, data.size, true) // compressed size (stored)
+    header.setUint32(22, data.size, true)
+    header.setUint16(26, encodedName.length, true)
+    parts.push(header.buffer, encodedName, data)
+    entries.push({ name: encodedName, data, crc, offset })
+    offset += 30 + encodedName.length + data.size
+  }
+
+  const finish = () => {
+    const central: BlobPart[] = []
+    let centralSize = 0
+    entries.forEach((entry) => {
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, 0x02014b50, true) // central directory header
+      header.setUint16(4, 20, true) // version made by
+      header.setUint16(6, 20, true) // version needed
+      header.setUint16(14, DOS_DATE_1980, true)
+      header.setUint32(16, entry.crc, true)
+      header.setUint32(20, entry.data.size, true)
+      header.setUint32(24, entry.data.size, true)
+      header.setUint16(28, entry.name.length, true)
+      header.setUint32(42, entry.offset, true)
+      central.push(header.buffer, entry.name)
+      centralSize += 46 + entry.name.length
+    })
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true) // end of central directory
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' })
+  }
+
+  return { add, finish, count: () => entries.length }
+}
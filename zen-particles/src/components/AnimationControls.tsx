@@ -0,0 +1,60 @@
+import { Pause, Play, RotateCw } from 'lucide-react'
+import { animationStore, useAnimation } from '../animation/store'
+
+const formatTime = (seconds: number) => `${seconds.toFixed(1)}s`
+
+export default function AnimationControls() {
+  const { clips, clipIndex, time, playing, autoSpin } = useAnimation()
+  const clip = clips[clipIndex]
+
+  return (
+    <div className="controls__row">
+      <p className="label">Animation</p>
+      <button
+        type="button"
+        className={`shape-btn compact ${autoSpin ? 'active' : ''}`}
+        onClick={() => animationStore.setAutoSpin(!autoSpin)}
+        title="Slowly spin the model"
+      >
+        <RotateCw size={12} /> Spin
+      </button>
+      {clips.length > 1 && (
+        <div className="shape-grid">
+          {clips.map((c, index) => (
+            <button
+              key={`${index}-${c.name}`}
+              type="button"
+              className={`shape-btn compact ${index === clipIndex ? 'active' : ''}`}
+              onClick={() => animationStore.selectClip(index)}
+            >
+              {c.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {clip && (
+        <>
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={animationStore.togglePlaying}
+            aria-label={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause size={12} /> : <Play size={12} />}
+          </button>
+          <input
+            className="replay-seek"
+            type="range"
+            min={0}
+            max={clip.duration}
+            step={0.01}
+            value={Math.min(time, clip.duration)}
+            onChange={(e) => animationStore.seek(Number(e.target.value))}
+          />
+          <span>{`${formatTime(Math.min(time, clip.duration))} / ${formatTime(clip.duration)}`}</span>
+        </>
+      )}
+      {clip && <span>Fist + move left/right = scrub | Thumbs-up = play/pause</span>}
+    </div>
+  )
+}
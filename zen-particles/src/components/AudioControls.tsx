@@ -0,0 +1,108 @@
+import { useEffect, useRef, type ChangeEvent, type DragEvent } from 'react'
+import { Mic, Square } from 'lucide-react'
+import { audioStore, useAudio, type AudioBand, type AudioTarget } from '../audio/store'
+
+const bands: AudioBand[] = ['bass', 'mid', 'treble', 'level', 'beat']
+
+const targets: { target: AudioTarget; label: string }[] = [
+  { target: 'expansion', label: 'Expansion' },
+  { target: 'size', label: 'Size' },
+  { target: 'color', label: 'Colour' },
+  { target: 'sun', label: 'Sun' },
+]
+
+const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus)$/i.test(file.name)
+
+// Microphone or audio file as a second control signal, bound per target
+export default function AudioControls() {
+  const { source, name, bindings, error } = useAudio()
+  const meterRefs = useRef(new Map<AudioBand, HTMLElement>())
+
+  // Meters follow the renderer's per-frame levels without re-rendering the panel
+  useEffect(() => {
+    if (source === 'off') return
+    let frame = requestAnimationFrame(function draw() {
+      const levels = audioStore.getLevels()
+      meterRefs.current.forEach((el, band) => {
+        el.style.width = `${(levels?.[band] ?? 0) * 100}%`
+      })
+      frame = requestAnimationFrame(draw)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [source])
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) audioStore.loadFile(file)
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    const file = Array.from(e.dataTransfer.files).find(isAudioFile)
+    if (!file) return
+    e.preventDefault()
+    audioStore.loadFile(file)
+  }
+
+  return (
+    <>
+      <div className="controls__row" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+        <p className="label">Audio</p>
+        <button
+          type="button"
+          className={`shape-btn compact ${source === 'mic' ? 'active' : ''}`}
+          onClick={audioStore.startMic}
+        >
+          <Mic size={12} /> Mic
+        </button>
+        <label className="file-input-label" title="Or drop an audio file on this row">
+          <input type="file" accept="audio/*" onChange={handleFile} />
+          <span className={`shape-btn compact ${source === 'file' ? 'active' : ''}`}>Audio file</span>
+        </label>
+        {source !== 'off' && (
+          <>
+            <button type="button" className="shape-btn compact" onClick={audioStore.stop} aria-label="Stop audio">
+              <Square size={12} />
+            </button>
+            <span>{name}</span>
+            {bands.map((band) => (
+              <span key={band} className="audio-meter" title={band}>
+                <span className="tension-bar">
+                  <span
+                    className="tension-fill"
+                    ref={(el) => {
+                      if (el) meterRefs.current.set(band, el)
+                      else meterRefs.current.delete(band)
+                    }}
+                  />
+                </span>
+                {band}
+              </span>
+            ))}
+          </>
+        )}
+        {error && <span className="tension-note">{error}</span>}
+      </div>
+      <div className="controls__row">
+        <p className="label">Audio drives</p>
+        {targets.map(({ target, label }) => (
+          <label key={target} className="slider-field">
+            {label}
+            <select
+              className="text-input"
+              value={bindings[target] ?? ''}
+              onChange={(e) => audioStore.setBinding(target, (e.target.value || null) as AudioBand | null)}
+            >
+              <option value="">hand</option>
+              {bands.map((band) => (
+                <option key={band} value={band}>
+                  {band}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </>
+  )
+}
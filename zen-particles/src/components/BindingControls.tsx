@@ -0,0 +1,149 @@
+import type { ChangeEvent } from 'react'
+import { Plus, X } from 'lucide-react'
+import {
+  bindingCurves,
+  bindingTargets,
+  inputChannels,
+  type BindingCurve,
+  type BindingTarget,
+  type InputChannel,
+} from '../bindings/bindings'
+import { bindingsStore, useBindings } from '../bindings/store'
+
+const targets = Object.keys(bindingTargets) as BindingTarget[]
+
+const numberValue = (e: ChangeEvent<HTMLInputElement>) => (Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : 0)
+
+// Which hand channel drives which control, per profile. Built-in profiles are
+// copied on the first edit.
+export default function BindingControls() {
+  const { profiles, activeId } = useBindings()
+  const active = bindingsStore.getActive()
+
+  return (
+    <>
+      <div className="controls__row">
+        <p className="label">Gestures</p>
+        <div className="shape-grid">
+          {profiles.map((profile) => (
+            <span key={profile.id} className="preset-entry">
+              <button
+                type="button"
+                className={`shape-btn compact ${profile.id === activeId ? 'active' : ''}`}
+                onClick={() => bindingsStore.select(profile.id)}
+              >
+                {profile.name}
+              </button>
+              {!profile.builtIn && (
+                <button
+                  type="button"
+                  className="shape-btn compact"
+                  onClick={() => bindingsStore.deleteProfile(profile.id)}
+                  aria-label={`Delete ${profile.name}`}
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        <button type="button" className="shape-btn compact" onClick={bindingsStore.addBinding}>
+          <Plus size={12} /> Binding
+        </button>
+        <span>Single hand only; two-hand zoom and rotate are fixed</span>
+      </div>
+      {active.bindings.map((binding, index) => (
+        <div key={index} className="controls__row binding-row">
+          <select
+            className="text-input"
+            value={binding.channel}
+            onChange={(e) => bindingsStore.updateBinding(index, { channel: e.target.value as InputChannel })}
+            aria-label="Input channel"
+          >
+            {inputChannels.map((channel) => (
+              <option key={channel} value={channel}>
+                {channel}
+              </option>
+            ))}
+          </select>
+          <span>→</span>
+          <select
+            className="text-input"
+            value={binding.target}
+            onChange={(e) => bindingsStore.updateBinding(index, { target: e.target.value as BindingTarget })}
+            aria-label="Target"
+          >
+            {targets.map((target) => (
+              <option key={target} value={target}>
+                {target}
+              </option>
+            ))}
+          </select>
+          <label className="slider-field">
+            Range
+            <input
+              className="range-input"
+              type="number"
+              step={0.1}
+              value={binding.min}
+              onChange={(e) => bindingsStore.updateBinding(index, { min: numberValue(e) })}
+            />
+            <input
+              className="range-input"
+              type="number"
+              step={0.1}
+              value={binding.max}
+              onChange={(e) => bindingsStore.updateBinding(index, { max: numberValue(e) })}
+            />
+          </label>
+          <select
+            className="text-input"
+            value={binding.curve}
+            onChange={(e) => bindingsStore.updateBinding(index, { curve: e.target.value as BindingCurve })}
+            aria-label="Curve"
+          >
+            {bindingCurves.map((curve) => (
+              <option key={curve} value={curve}>
+                {curve}
+              </option>
+            ))}
+          </select>
+          <label className="slider-field">
+            Deadzone
+            <input
+              type="range"
+              min={0}
+              max={0.5}
+              step={0.01}
+              value={binding.deadzone}
+              onChange={(e) => bindingsStore.updateBinding(index, { deadzone: Number(e.target.value) })}
+            />
+          </label>
+          <button
+            type="button"
+            className={`shape-btn compact ${binding.invert ? 'active' : ''}`}
+            onClick={() => bindingsStore.updateBinding(index, { invert: !binding.invert })}
+          >
+            invert
+          </button>
+          <button
+            type="button"
+            className={`shape-btn compact ${binding.whileFist ? 'active' : ''}`}
+            onClick={() => bindingsStore.updateBinding(index, { whileFist: !binding.whileFist })}
+            title="Only while the fist is closed; wrist channels then measure the drag"
+          >
+            fist
+          </button>
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={() => bindingsStore.removeBinding(index)}
+            aria-label="Remove binding"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,81 @@
+import { calibrationStore, useCalibration, type Handedness } from '../calibration/profile'
+
+const hands: Handedness[] = ['Left', 'Right']
+
+export default function CalibrationControls() {
+  const { profile, borrowed } = useCalibration()
+  const { openness, fistThreshold, panReach, dominantHand } = profile
+
+  return (
+    <div className="controls__row">
+      <p className="label">Calibration</p>
+      <label className="slider-field">
+        Fist at
+        <input
+          type="range"
+          min={0.3}
+          max={0.95}
+          step={0.01}
+          value={fistThreshold}
+          onChange={(e) => calibrationStore.updateProfile({ fistThreshold: Number(e.target.value) })}
+        />
+        {fistThreshold.toFixed(2)}
+      </label>
+      <label className="slider-field">
+        Open hand
+        <input
+          type="range"
+          min={0.8}
+          max={2.4}
+          step={0.05}
+          value={openness.open}
+          onChange={(e) => calibrationStore.updateProfile({ openness: { ...openness, open: Number(e.target.value) } })}
+        />
+        {openness.open.toFixed(2)}
+      </label>
+      <label className="slider-field">
+        Pan reach
+        <input
+          type="range"
+          min={0.05}
+          max={0.5}
+          step={0.01}
+          value={panReach.x}
+          onChange={(e) => {
+            // One slider scales both axes, keeping the calibrated aspect
+            const x = Number(e.target.value)
+            calibrationStore.updateProfile({ panReach: { x, y: panReach.y * (x / panReach.x) } })
+          }}
+        />
+        {panReach.x.toFixed(2)}
+      </label>
+      {hands.map((hand) => (
+        <button
+          key={hand}
+          type="button"
+          className={`shape-btn compact ${dominantHand === hand ? 'active' : ''}`}
+          onClick={() => calibrationStore.updateProfile({ dominantHand: hand })}
+        >
+          {hand}
+        </button>
+      ))}
+      <button type="button" className="shape-btn compact" onClick={calibrationStore.openWizard}>
+        Recalibrate
+      </button>
+      <button type="button" className="shape-btn compact" onClick={calibrationStore.resetProfile}>
+        Reset
+      </button>
+      {borrowed && (
+        <>
+          <span className="tension-note">Using the shared preset's sensitivity for this session</span>
+          <button type="button" className="shape-btn compact" onClick={calibrationStore.keepBorrowed}>
+            Keep
+          </button>
+          <button type="button" className="shape-btn compact" onClick={calibrationStore.restoreOwn}>
+            Use mine
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
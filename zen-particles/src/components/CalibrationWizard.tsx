@@ -0,0 +1,28 @@
+import { stepInstructions, type CalibrationStep } from '../calibration/session'
+
+type CalibrationWizardProps = {
+  step: CalibrationStep
+  progress: number
+  handVisible: boolean
+  onSkip: () => void
+}
+
+const steps: CalibrationStep[] = ['open', 'fist', 'reach']
+
+export default function CalibrationWizard({ step, progress, handVisible, onSkip }: CalibrationWizardProps) {
+  const index = steps.indexOf(step)
+
+  return (
+    <div className="calibration-wizard glass">
+      <p className="label">{`Calibration ${Math.min(index + 1, steps.length)}/${steps.length}`}</p>
+      <p className="calibration-wizard__text">{stepInstructions[step]}</p>
+      <div className="tension-bar">
+        <div className="tension-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      {!handVisible && <span className="tension-note">Hold your hand up to the camera</span>}
+      <button type="button" className="shape-btn" onClick={onSkip}>
+        Skip (use defaults)
+      </button>
+    </div>
+  )
+}
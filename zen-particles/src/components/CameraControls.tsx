@@ -0,0 +1,65 @@
+import type { ChangeEvent } from 'react'
+import { DEFAULT_RIG, type CameraRigType } from '../camera/rigs'
+import { cameraStore, useCamera, type ZoomLimits } from '../camera/store'
+import type { SceneMode } from '../types'
+
+const rigOptions: { rig: CameraRigType; title: string }[] = [
+  { rig: 'orbit', title: 'Pan swings the camera around the scene' },
+  { rig: 'fly', title: 'Cruise through the scene; zoom is the throttle, pan looks around' },
+  { rig: 'showcase', title: 'Slow turntable with a fixed framing' },
+]
+
+// Rig choice and zoom range for the current mode; both are remembered per mode
+export default function CameraControls({ mode }: { mode: SceneMode }) {
+  const { rigs, limits } = useCamera()
+  const rig = rigs[mode] ?? DEFAULT_RIG
+  const range = limits[mode] ?? {}
+
+  const handleLimit = (side: keyof ZoomLimits) => (e: ChangeEvent<HTMLInputElement>) =>
+    cameraStore.setLimit(mode, side, e.target.value === '' ? null : e.target.valueAsNumber)
+
+  return (
+    <div className="controls__row">
+      <p className="label">Camera</p>
+      <div className="shape-grid">
+        {rigOptions.map((option) => (
+          <button
+            key={option.rig}
+            type="button"
+            className={`shape-btn ${rig === option.rig ? 'active' : ''}`}
+            onClick={() => cameraStore.setRig(mode, option.rig)}
+            title={option.title}
+          >
+            {option.rig}
+          </button>
+        ))}
+      </div>
+      <p className="label">Zoom range</p>
+      <input
+        className="range-input"
+        type="number"
+        min={0.5}
+        step={0.5}
+        placeholder="near"
+        value={range.minDist ?? ''}
+        onChange={handleLimit('minDist')}
+        aria-label="Nearest camera distance"
+      />
+      <input
+        className="range-input"
+        type="number"
+        min={1}
+        step={1}
+        placeholder="far"
+        value={range.maxDist ?? ''}
+        onChange={handleLimit('maxDist')}
+        aria-label="Farthest camera distance"
+      />
+      {(range.minDist !== undefined || range.maxDist !== undefined) && (
+        <button type="button" className="shape-btn compact" onClick={() => cameraStore.resetLimits(mode)}>
+          Reset
+        </button>
+      )}
+    </div>
+  )
+}
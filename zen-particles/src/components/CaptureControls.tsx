@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { Camera, Circle, Film, Square, X } from 'lucide-react'
+import { captureStore, useCapture } from '../capture/store'
+import { supportedVideoType } from '../capture/video'
+
+const scales = [1, 2, 4]
+const sequenceLengths = [2, 5, 10]
+const SEQUENCE_FPS = 30
+
+// Stills, WebM recording and fixed-timestep PNG sequences of the stage
+export default function CaptureControls() {
+  const { ready, busy, progress, webcam, error } = useCapture()
+  const [scale, setScale] = useState(2)
+  const [pip, setPip] = useState(false)
+  const canRecord = supportedVideoType() !== null
+
+  return (
+    <div className="controls__row">
+      <p className="label">Capture</p>
+      <div className="shape-grid">
+        {scales.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={`shape-btn compact ${scale === option ? 'active' : ''}`}
+            onClick={() => setScale(option)}
+            title="Screenshot resolution relative to the viewport"
+          >
+            {option}×
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="shape-btn compact"
+        disabled={!ready || busy !== null}
+        onClick={() => captureStore.screenshot(scale)}
+      >
+        <Camera size={12} /> PNG
+      </button>
+      {busy === 'video' ? (
+        <button type="button" className="shape-btn compact active" onClick={captureStore.stopVideo}>
+          <Square size={12} /> Stop video
+        </button>
+      ) : (
+        <button
+          type="button"
+          className="shape-btn compact"
+          disabled={!ready || busy !== null || !canRecord}
+          onClick={() => captureStore.startVideo({ pip: pip && webcam })}
+          title={canRecord ? 'Record the stage as WebM' : 'This browser cannot record WebM'}
+        >
+          <Circle size={12} /> WebM
+        </button>
+      )}
+      <button
+        type="button"
+        className={`shape-btn compact ${pip ? 'active' : ''}`}
+        disabled={!webcam || busy === 'video'}
+        onClick={() => setPip(!pip)}
+        title="Inset the webcam in the corner of the recording"
+      >
+        webcam inset
+      </button>
+      {busy === 'sequence' ? (
+        <>
+          <span>{`Frames ${Math.round(progress * 100)}%`}</span>
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={captureStore.cancelSequence}
+            aria-label="Cancel frame export"
+          >
+            <X size={12} />
+          </button>
+        </>
+      ) : (
+        sequenceLengths.map((seconds) => (
+          <button
+            key={seconds}
+            type="button"
+            className="shape-btn compact"
+            disabled={!ready || busy !== null}
+            onClick={() => captureStore.exportSequence({ seconds, fps: SEQUENCE_FPS })}
+            title={`${seconds * SEQUENCE_FPS} PNG frames on a fixed ${SEQUENCE_FPS} fps timestep, zipped`}
+          >
+            <Film size={12} /> {seconds}s
+          </button>
+        ))
+      )}
+      {error && <span className="tension-note">{error}</span>}
+    </div>
+  )
+}
@@ -1,18 +1,11 @@
-import type { ControlsProps, ShapeType } from '../types'
+import { palette, shapes } from '../scenes/settings'
+import type { ScenePanelProps } from '../types'
 
-const shapes: ShapeType[] = ['heart', 'flower', 'saturn', 'buddha', 'fireworks', 'sphere']
-
-export default function Controls({
-  shape,
-  onShapeChange,
-  color,
-  onColorChange,
-  tension,
-  palette,
-  cameraError,
-}: ControlsProps) {
+export default function Controls({ settings, onSettingsChange, tension, cameraError }: ScenePanelProps) {
+  const { shape, color } = settings
+  // Rows only; this is the shapes scene's panel and App places it inside its own
   return (
-    <div className="controls glass">
+    <>
       <div className="controls__row">
         <p className="label">Shapes</p>
         <div className="shape-grid">
@@ -21,7 +14,7 @@ export default function Controls({
               key={item}
               type="button"
               className={`shape-btn ${shape === item ? 'active' : ''}`}
-              onClick={() => onShapeChange(item)}
+              onClick={() => onSettingsChange({ shape: item })}
             >
               {item}
             </button>
@@ -38,7 +31,7 @@ export default function Controls({
               type="button"
               className={`swatch ${color === swatch ? 'selected' : ''}`}
               style={{ backgroundColor: swatch }}
-              onClick={() => onColorChange(swatch)}
+              onClick={() => onSettingsChange({ color: swatch })}
               aria-label={`Color ${swatch}`}
             />
           ))}
@@ -52,7 +45,7 @@ export default function Controls({
         </div>
         {cameraError ? <span className="tension-note">Camera blocked — retry above</span> : null}
       </div>
-    </div>
+    </>
   )
 }
 
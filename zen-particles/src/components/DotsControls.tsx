@@ -0,0 +1,25 @@
+import type { ScenePanelProps } from '../types'
+
+const dotCounts = [20_000, 100_000, 250_000, 1_000_000]
+
+const formatCount = (count: number) => (count >= 1_000_000 ? `${count / 1_000_000}M` : `${count / 1000}k`)
+
+export default function DotsControls({ settings, onSettingsChange }: ScenePanelProps) {
+  return (
+    <div className="controls__row">
+      <p className="label">Particles</p>
+      <div className="shape-grid">
+        {dotCounts.map((count) => (
+          <button
+            key={count}
+            type="button"
+            className={`shape-btn ${settings.dotCount === count ? 'active' : ''}`}
+            onClick={() => onSettingsChange({ dotCount: count })}
+          >
+            {formatCount(count)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,199 +1,494 @@
 import { useEffect, useRef, useState } from 'react'
-import { FilesetResolver, HandLandmarker, type NormalizedLandmark } from '@mediapipe/tasks-vision'
-import * as THREE from 'three'
+import { bindingsStore } from '../bindings/store'
+import { calibrationStore, useCalibration, type Handedness } from '../calibration/profile'
+import { createCalibrationSession, type CalibrationStep } from '../calibration/session'
+import { captureStore } from '../capture/store'
+import { checkAssetVersion, fetchWithProgress, resolveAssets } from '../detection/assets'
+import {
+  createHandDetector,
+  defaultLandmarkerConfig,
+  type DetectorCallbacks,
+  type HandDetector,
+} from '../detection/handDetector'
+import type { DetectionResult, LandmarkerConfig } from '../detection/messages'
+import {
+  createHandControlsMapper,
+  mirrorFrame,
+  type HandControlsMapper,
+  type HandFrame,
+} from '../gestures/handControlsMapper'
+import { createFistGesture, createSwipeGestures } from '../gestures/recognizers'
+import { gestureRegistry } from '../gestures/registry'
+import { recordingStore, useRecording } from '../recording/store'
 import type { HandControls, HandTrackerProps } from '../types'
+import { clearHandOverlay, drawHandOverlay } from '../utils/landmarkOverlay'
+import { describeCameraError, videoConstraints, type CameraIssue, type WebcamSettings } from '../webcam/devices'
+import { useWebcam, webcamStore } from '../webcam/store'
+import CalibrationWizard from './CalibrationWizard'
+import TrackingHud, { type TrackingStats } from './TrackingHud'
 
 type TrackerState = 'idle' | 'initializing' | 'ready' | 'error'
 
-const MODEL_URL =
-  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+// The camera and presets a stream was opened for
+type OpenedCamera = Pick<WebcamSettings, 'deviceId' | 'resolution' | 'fps'>
 
-function distance3d(a: NormalizedLandmark, b: NormalizedLandmark) {
-  const dx = a.x - b.x
-  const dy = a.y - b.y
-  const dz = (a.z || 0) - (b.z || 0)
-  return Math.sqrt(dx * dx + dy * dy + dz * dz)
-}
+// What the tracker is waiting on while initializing, and what failed in the error state
+type LoadStage = 'camera' | 'assets' | 'model' | 'runtime'
 
-function computeTension(landmarks: NormalizedLandmark[]) {
-  const wrist = landmarks[0]
-  const fingerTips = [4, 8, 12, 16, 20].map((i) => landmarks[i])
-  const bases = [5, 9, 13, 17].map((i) => landmarks[i])
+const loadingLabels: Record<LoadStage, string> = {
+  camera: 'Starting camera…',
+  assets: 'Checking tracking assets…',
+  model: 'Downloading hand model…',
+  runtime: 'Starting hand tracking…',
+}
 
-  const avgTip = fingerTips.reduce((acc, tip) => acc + distance3d(tip, wrist), 0) / fingerTips.length
-  const palmSize = bases.reduce((acc, base) => acc + distance3d(base, wrist), 0) / bases.length
+// Shown instead of the camera label while the browser's permission prompt is open
+const promptLabel = 'Allow camera access in the browser prompt…'
 
-  const openRatio = avgTip / (palmSize * 1.6)
-  const tension = 1 - Math.min(Math.max(openRatio, 0), 1)
-  return Math.min(Math.max(tension, 0), 1)
+const errorLabels: Record<LoadStage, string> = {
+  camera: 'Camera unavailable',
+  assets: 'Tracking assets out of date',
+  model: 'Hand model failed to load',
+  runtime: 'Hand tracking failed to start',
 }
 
-export default function HandTracker({ onControls, onError }: HandTrackerProps) {
+export default function HandTracker({ onControls, onError, filterConfig }: HandTrackerProps) {
   const videoRef = useRef<HTMLVideoElement | null>(null)
-  const handLandmarker = useRef<HandLandmarker | null>(null)
+  const detectorRef = useRef<HandDetector | null>(null)
   const rafRef = useRef<number | null>(null)
   const [state, setState] = useState<TrackerState>('idle')
   const [error, setError] = useState<string | null>(null)
+  const [stage, setStage] = useState<LoadStage>('camera')
+  const [modelProgress, setModelProgress] = useState<number | null>(null)
+  const [cameraIssue, setCameraIssue] = useState<CameraIssue | null>(null)
+  const camera = useWebcam()
+  const openedRef = useRef<OpenedCamera | null>(null)
+  const openCount = useRef(0)
+  // Device, presets and permission at the last camera failure; a change retries
+  const failedKeyRef = useRef<string | null>(null)
+  // Latest camera handlers, for the store subscription and track listeners that outlive a render
+  const cameraHandlers = useRef<{
+    start: typeof start
+    openCamera: typeof openCamera
+    failCamera: typeof failCamera
+  } | null>(null)
+  const { profile, wizardOpen } = useCalibration()
+  const profileRef = useRef(profile)
+  const bindingsRef = useRef(bindingsStore.getActive().bindings)
+  const sessionRef = useRef<ReturnType<typeof createCalibrationSession> | null>(null)
+  const [wizard, setWizard] = useState<{ step: CalibrationStep; progress: number; handVisible: boolean }>({
+    step: 'open',
+    progress: 0,
+    handVisible: false,
+  })
   const lastVideoTime = useRef<number>(-1)
-  const lastPan = useRef<{ x: number; y: number }>({ x: 0, y: 0 })
-  const lastZoom = useRef<number>(1)
-  const baseWristPos = useRef<{ x: number; y: number } | null>(null)
-  const controlsRef = useRef<HandControls>({
-    zoom: 1,
-    panX: 0,
-    panY: 0,
-    hasBothHands: false,
+  const mapperRef = useRef<HandControlsMapper | null>(null)
+  const overlayRef = useRef<HTMLCanvasElement | null>(null)
+  const [debugOpen, setDebugOpen] = useState(false)
+  const debugOpenRef = useRef(false)
+  const [stats, setStats] = useState<TrackingStats | null>(null)
+  // Running detection rate and when the HUD last re-rendered
+  const statsTiming = useRef<{ lastFrame: number | null; fps: number; lastPublish: number }>({
+    lastFrame: null,
+    fps: 0,
+    lastPublish: 0,
   })
+  const { replay } = useRecording()
 
   useEffect(() => {
     start()
     return () => {
       if (rafRef.current) cancelAnimationFrame(rafRef.current)
-      handLandmarker.current?.close()
+      detectorRef.current?.close()
+      detectorRef.current = null
+      gestureRegistry.reset()
+      captureStore.setWebcam(null)
+      webcamStore.setActive(null)
+      openedRef.current = null
       const stream = videoRef.current?.srcObject as MediaStream | null
       stream?.getTracks().forEach((t) => t.stop())
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Hot-swaps the stream when the device choice, a preset or the plugged-in cameras
+  // change, and retries a failed camera once something relevant changed
+  useEffect(() => {
+    const unwatch = webcamStore.watch()
+    let mirror = webcamStore.getState().settings.mirror
+    const unsubscribe = webcamStore.subscribe(() => {
+      const { settings } = webcamStore.getState()
+      if (settings.mirror !== mirror) {
+        // Held pan and gesture history were measured in the other orientation
+        mirror = settings.mirror
+        mapperRef.current?.reset()
+        gestureRegistry.reset()
+      }
+      const handlers = cameraHandlers.current
+      if (!handlers) return
+      const failedKey = failedKeyRef.current
+      if (failedKey !== null) {
+        if (failedKey !== cameraKey()) handlers.start()
+        return
+      }
+      const opened = openedRef.current
+      if (
+        opened &&
+        (opened.deviceId !== webcamStore.resolvedDeviceId() ||
+          opened.resolution !== settings.resolution ||
+          opened.fps !== settings.fps)
+      ) {
+        handlers.openCamera().catch(handlers.failCamera)
+      }
+    })
+    return () => {
+      unsubscribe()
+      unwatch()
+    }
+  }, [])
+
+  useEffect(() => {
+    cameraHandlers.current = { start, openCamera, failCamera }
+  })
+
+  // Build the filter pipeline, and rebuild it when its configuration changes; frame
+  // handlers hold the first render's props, so they must not build it themselves
+  useEffect(() => {
+    if (mapperRef.current) mapperRef.current.reset(filterConfig)
+    else mapperRef.current = createHandControlsMapper(filterConfig)
+  }, [filterConfig])
+
+  // D toggles the landmark overlay and debug HUD
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLElement && /^(INPUT|TEXTAREA|SELECT)$/.test(e.target.tagName)
+      if (!typing && (e.key === 'd' || e.key === 'D')) setDebugOpen((open) => !open)
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+
+  useEffect(() => {
+    debugOpenRef.current = debugOpen
+    if (!debugOpen && overlayRef.current) clearHandOverlay(overlayRef.current)
+  }, [debugOpen])
+
+  // Replayed recordings go through exactly the same frame handling as the camera
+  useEffect(
+    () =>
+      recordingStore.subscribeReplay({
+        onFrame: handleFrame,
+        onSeek: () => {
+          mapperRef.current?.reset()
+          gestureRegistry.reset()
+        },
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  )
+
+  // Apply profile edits live, including to the shared fist recognizer and the
+  // swipes, which a fist pan must not trigger
+  useEffect(() => {
+    profileRef.current = profile
+    const fist = createFistGesture(profile.fistThreshold, profile.openness)
+    gestureRegistry.register(fist)
+    createSwipeGestures(fist.recognize).forEach(gestureRegistry.register)
+  }, [profile])
+
+  // Binding edits apply from the next frame
+  useEffect(
+    () =>
+      bindingsStore.subscribe(() => {
+        bindingsRef.current = bindingsStore.getActive().bindings
+      }),
+    [],
+  )
+
+  useEffect(() => {
+    sessionRef.current = wizardOpen ? createCalibrationSession(profileRef.current) : null
+    if (wizardOpen) setWizard({ step: 'open', progress: 0, handVisible: false })
+  }, [wizardOpen])
+
+  const cameraKey = () => {
+    const { settings, permission, devices } = webcamStore.getState()
+    return [webcamStore.resolvedDeviceId(), settings.resolution, settings.fps, permission, devices.length].join('|')
+  }
+
+  // Opens (or reopens) the stream for the current device choice and presets. The
+  // old stream is stopped first; some cameras can't be opened twice at once.
+  // Resolves false when a newer open or unmounting superseded this one while it
+  // waited; its errors (e.g. play() aborted by the swap) are dropped then, since the
+  // newer open reports its own.
+  const openCamera = async () => {
+    const video = videoRef.current
+    if (!video) return false
+    const id = ++openCount.current
+    const superseded = () => id !== openCount.current || videoRef.current !== video
+    const { settings } = webcamStore.getState()
+    const deviceId = webcamStore.resolvedDeviceId()
+    openedRef.current = { deviceId, resolution: settings.resolution, fps: settings.fps }
+    ;(video.srcObject as MediaStream | null)?.getTracks().forEach((t) => t.stop())
+    webcamStore.setActive(null)
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings, deviceId) })
+      if (superseded()) {
+        stream.getTracks().forEach((t) => t.stop())
+        return false
+      }
+      video.srcObject = stream
+      await video.play()
+    } catch (err) {
+      if (superseded()) return false
+      openedRef.current = null
+      throw err
+    }
+    if (superseded()) return false
+
+    const [track] = stream.getVideoTracks()
+    webcamStore.setActive(track)
+    // Unplugged or taken over by the system: reopen whatever is available now
+    track.addEventListener('ended', () => {
+      const handlers = cameraHandlers.current
+      if (id === openCount.current && handlers) handlers.openCamera().catch(handlers.failCamera)
+    })
+    captureStore.setWebcam(video)
+    // Device labels only become readable once access is granted
+    webcamStore.refreshDevices()
+    return true
+  }
+
+  const failCamera = (err: unknown) => {
+    const issue = describeCameraError(err, webcamStore.getState().permission)
+    failedKeyRef.current = cameraKey()
+    setState('error')
+    setStage('camera')
+    setCameraIssue(issue)
+    setError(issue.help)
+    onError?.(`${issue.title}: ${issue.help}`)
+  }
+
+  // Opens the camera, then loads tracking unless it already runs (a camera retry)
   const start = async () => {
+    let current: LoadStage = 'camera'
+    const enter = (next: LoadStage) => {
+      current = next
+      setStage(next)
+    }
+
     try {
+      failedKeyRef.current = null
       setState('initializing')
       setError(null)
+      setCameraIssue(null)
       onError?.(null)
+      enter('camera')
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480, facingMode: 'user' },
-      })
-
+      // A saved camera only resolves once the devices are listed; opening before that
+      // would start the default camera and then swap
+      if (!openedRef.current) await webcamStore.refreshDevices()
+      await openCamera()
       if (!videoRef.current) return
-      videoRef.current.srcObject = stream
-      await videoRef.current.play()
+      if (detectorRef.current) {
+        if (failedKeyRef.current !== null) return
+        setState('ready')
+        return
+      }
 
-      const vision = await FilesetResolver.forVisionTasks(
-        'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.15/wasm',
-      )
+      enter('assets')
+      const assets = resolveAssets()
+      await checkAssetVersion(assets)
 
-      handLandmarker.current = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: { modelAssetPath: MODEL_URL, delegate: 'GPU' },
-        runningMode: 'VIDEO',
-        numHands: 1,
-        minTrackingConfidence: 0.4,
-        minHandPresenceConfidence: 0.4,
-      })
+      enter('model')
+      setModelProgress(0)
+      const modelBuffer = await fetchWithProgress(assets.modelPath, setModelProgress)
+
+      // Detection runs in a worker when possible; results come back asynchronously
+      enter('runtime')
+      const config = { ...defaultLandmarkerConfig, wasmPath: assets.wasmPath, modelPath: assets.modelPath, modelBuffer }
+      const callbacks: DetectorCallbacks = {
+        onResult: handleDetection,
+        onError: (message, fatal) => {
+          console.error('Hand detection error:', message)
+          if (fatal && detectorRef.current?.mode === 'worker') fallBackToMainThread(callbacks, config)
+        },
+      }
+      detectorRef.current = await createHandDetector(callbacks, config)
 
+      // A camera swap during loading may have failed on its own meanwhile
+      if (failedKeyRef.current !== null) return
       setState('ready')
+      if (rafRef.current) cancelAnimationFrame(rafRef.current)
+      processFrame()
+    } catch (err) {
+      if (current === 'camera') {
+        failCamera(err)
+        return
+      }
+      const message = err instanceof Error ? err.message : errorLabels[current]
+      setState('error')
+      setError(message)
+      onError?.(`${errorLabels[current]}: ${message}`)
+    }
+  }
+
+  // The worker died mid-session: carry on detecting on the main thread
+  const fallBackToMainThread = async (callbacks: DetectorCallbacks, config: LandmarkerConfig) => {
+    detectorRef.current = null
+    if (rafRef.current) cancelAnimationFrame(rafRef.current)
+    try {
+      const detector = await createHandDetector(callbacks, config, 'main')
+      // Unmounted while it loaded
+      if (!videoRef.current) {
+        detector.close()
+        return
+      }
+      detectorRef.current = detector
       processFrame()
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unable to access camera'
+      const message = err instanceof Error ? err.message : errorLabels.runtime
       setState('error')
+      setStage('runtime')
       setError(message)
-      onError?.(message)
+      onError?.(`${errorLabels.runtime}: ${message}`)
     }
   }
 
+  // Feeds new video frames to the detector; never blocks on detection itself
   const processFrame = () => {
-    if (!handLandmarker.current || !videoRef.current) return
+    if (!detectorRef.current || !videoRef.current) return
 
     const video = videoRef.current
-    const now = performance.now()
-    if (lastVideoTime.current === video.currentTime) {
-      rafRef.current = requestAnimationFrame(processFrame)
-      return
+    if (lastVideoTime.current !== video.currentTime) {
+      lastVideoTime.current = video.currentTime
+      detectorRef.current.submit(video, performance.now())
     }
-    lastVideoTime.current = video.currentTime
+    rafRef.current = requestAnimationFrame(processFrame)
+  }
 
-    const result = handLandmarker.current.detectForVideo(video, now)
-    const hands = result.landmarks ?? []
+  const handleDetection = (result: DetectionResult) => {
+    // While a recording plays back it owns the pipeline; live frames are ignored
+    if (recordingStore.getState().replay) return
+    const frame: HandFrame = {
+      landmarks: result.landmarks ?? [],
+      handedness: (result.handedness ?? []).map((h) => h[0]?.categoryName as Handedness | undefined),
+      timestamp: result.timestamp,
+    }
+    recordingStore.recordFrame(frame)
+    handleFrame(frame, result.latency)
+  }
 
-    if (hands.length >= 1) {
-      const hand = hands[0]
-      const wrist = hand[0]
-      const tension = computeTension(hand)
-      const isFistClosed = tension > 0.7 // Consider fist closed when tension > 0.7
+  const handleFrame = (raw: HandFrame, latency = 0) => {
+    // Recordings keep the camera's own orientation; the mirror applies on the way in
+    const frame = webcamStore.getState().settings.mirror ? mirrorFrame(raw) : raw
+    const now = frame.timestamp
+    const hands = frame.landmarks
+    const handedness = frame.handedness
+    const profile = profileRef.current
 
-      // Initialize base position on first detection
-      if (baseWristPos.current === null) {
-        baseWristPos.current = { x: wrist.x, y: wrist.y }
+    // Calibration wizard takes over the frames until it finishes or is skipped
+    const session = sessionRef.current
+    if (session) {
+      const done = session.addFrame(hands.length ? { landmarks: hands[0], handedness: handedness[0] } : null, now)
+      const next = { step: session.getStep(), progress: session.getProgress(), handVisible: hands.length > 0 }
+      setWizard((prev) =>
+        prev.step === next.step && prev.handVisible === next.handVisible && Math.abs(prev.progress - next.progress) < 0.05
+          ? prev
+          : next,
+      )
+      if (done) {
+        sessionRef.current = null
+        calibrationStore.completeWizard(done)
       }
+      return
+    }
 
-      // Zoom from hand openness (closed fist = zoom in, open hand = zoom out)
-      // Inverted: closed (high tension) = zoom in (high zoom value)
-      const targetZoom = 0.5 + tension * 2.0 // tension 0..1 => zoom 0.5..2.5
-      lastZoom.current = lastZoom.current * 0.7 + targetZoom * 0.3 // Faster response
-
-      let panX = 0
-      let panY = 0
-
-      // Only pan when fist is closed
-      if (isFistClosed) {
-        // Calculate relative movement from base position
-        // Invert Y because camera Y is inverted (up in hand = down in camera)
-        const dx = (wrist.x - baseWristPos.current.x) * 6.0 // Increased sensitivity
-        const dy = -(wrist.y - baseWristPos.current.y) * 6.0 // Inverted and increased sensitivity
-        
-        // Update pan with less smoothing for faster response
-        lastPan.current = {
-          x: lastPan.current.x * 0.6 + dx * 0.4,
-          y: lastPan.current.y * 0.6 + dy * 0.4,
-        }
-        
-        panX = THREE.MathUtils.clamp(lastPan.current.x, -1, 1)
-        panY = THREE.MathUtils.clamp(lastPan.current.y, -1, 1)
-      } else {
-        // When hand opens, update base position but don't reset pan immediately
-        // This allows smooth transition
-        baseWristPos.current = { x: wrist.x, y: wrist.y }
-        // Smoothly return pan to center when hand opens
-        lastPan.current = {
-          x: lastPan.current.x * 0.85,
-          y: lastPan.current.y * 0.85,
-        }
-        panX = lastPan.current.x
-        panY = lastPan.current.y
-      }
+    // Named gestures follow one hand: the only one visible, or the dominant one of two
+    const dominantIndex = handedness.indexOf(profile.dominantHand)
+    const gestureHand = hands.length === 1 ? hands[0] : hands.length >= 2 && dominantIndex >= 0 ? hands[dominantIndex] : null
+    gestureRegistry.process(gestureHand, now)
 
-      controlsRef.current = {
-        zoom: Math.min(Math.max(lastZoom.current, 0.5), 2.5),
-        panX,
-        panY,
-        hasBothHands: false,
-      }
-      onControls(controlsRef.current)
-    } else {
-      // No hand detected - reset base position and smoothly return to center
-      baseWristPos.current = null
-      lastPan.current = {
-        x: lastPan.current.x * 0.9,
-        y: lastPan.current.y * 0.9,
-      }
-      controlsRef.current = {
-        ...controlsRef.current,
-        panX: lastPan.current.x,
-        panY: lastPan.current.y,
-        hasBothHands: false,
-      }
-      onControls(controlsRef.current)
-    }
+    const mapper = (mapperRef.current ??= createHandControlsMapper())
+    const controls = mapper.map(frame, profile, bindingsRef.current)
+    onControls(controls)
 
-    rafRef.current = requestAnimationFrame(processFrame)
+    if (debugOpenRef.current) updateDebug(mapper, controls, now, latency)
+  }
+
+  const updateDebug = (mapper: HandControlsMapper, controls: HandControls, now: number, latency: number) => {
+    const debug = mapper.getDebug()
+    if (overlayRef.current) drawHandOverlay(overlayRef.current, debug.smoothedHands, debug.baseWrist)
+
+    const timing = statsTiming.current
+    if (timing.lastFrame !== null && now > timing.lastFrame) {
+      timing.fps = timing.fps * 0.9 + (1000 / (now - timing.lastFrame)) * 0.1
+    }
+    timing.lastFrame = now
+    // Numbers re-render at 5 Hz; the overlay itself redraws every frame
+    if (now - timing.lastPublish < 200) return
+    timing.lastPublish = now
+    setStats({
+      tension: debug.tension,
+      isFistClosed: debug.isFistClosed,
+      baseWrist: debug.baseWrist,
+      controls,
+      fps: timing.fps,
+      latency,
+      hands: debug.smoothedHands.length,
+    })
   }
 
   return (
-    <div className="hand-preview">
-      <video ref={videoRef} playsInline muted />
-      {state === 'error' && (
-        <div className="hand-error glass">
-          <p>Camera unavailable</p>
-          <button type="button" onClick={start}>
-            Retry
-          </button>
-        </div>
+    <>
+      {/* Sized to the stream's aspect ratio so the video and overlay stay uncropped */}
+      <div
+        className="hand-preview"
+        style={camera.active?.width ? { aspectRatio: `${camera.active.width} / ${camera.active.height}` } : undefined}
+      >
+        <video ref={videoRef} className={camera.settings.mirror ? 'mirrored' : undefined} playsInline muted />
+        <canvas ref={overlayRef} hidden={!debugOpen} />
+        <button
+          type="button"
+          className="hand-debug-toggle"
+          onClick={() => setDebugOpen((open) => !open)}
+          title="Toggle landmark overlay (D)"
+        >
+          {debugOpen ? 'hide' : 'debug'}
+        </button>
+        {state === 'error' && (
+          <div className="hand-error glass">
+            <p>{stage === 'camera' && cameraIssue ? cameraIssue.title : errorLabels[stage]}</p>
+            <button type="button" onClick={start}>
+              Retry
+            </button>
+          </div>
+        )}
+        {state === 'initializing' && (
+          <div className="hand-status glass">
+            {stage === 'model' && modelProgress !== null
+              ? `${loadingLabels.model} ${Math.round(modelProgress * 100)}%`
+              : stage === 'camera' && camera.permission === 'prompt'
+                ? promptLabel
+                : loadingLabels[stage]}
+          </div>
+        )}
+        {replay && <div className="hand-status glass">Replay</div>}
+        {!replay && state === 'ready' && (
+          <div className="hand-status glass">{wizardOpen ? 'Calibrating' : 'Tracking'}</div>
+        )}
+        {error && <span className="hand-note">{error}</span>}
+      </div>
+      {debugOpen && stats && !wizardOpen && <TrackingHud stats={stats} />}
+      {state === 'ready' && wizardOpen && (
+        <CalibrationWizard
+          step={wizard.step}
+          progress={wizard.progress}
+          handVisible={wizard.handVisible}
+          onSkip={calibrationStore.skipWizard}
+        />
       )}
-      {state === 'initializing' && <div className="hand-status glass">Calibrating…</div>}
-      {state === 'ready' && <div className="hand-status glass">Tracking</div>}
-      {error && <span className="hand-note">{error}</span>}
-    </div>
+    </>
   )
 }
-
@@ -1,88 +1,38 @@
 import { useEffect, useRef } from 'react'
 import * as THREE from 'three'
-import { GLTFLoader, type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
-import type { SceneMode, SceneProps } from '../types'
-
-type PlanetDef = {
-  name: string
-  radius: number
-  distance: number
-  speed: number
-  color: string
-  tilt?: number
-}
-
-const PLANETS: PlanetDef[] = [
-  { name: 'Mercury', radius: 0.18, distance: 1.2, speed: 1.3, color: '#c0b7a8' },
-  { name: 'Venus', radius: 0.24, distance: 1.9, speed: 1.0, color: '#d9b26b' },
-  { name: 'Earth', radius: 0.26, distance: 2.6, speed: 0.8, color: '#6bb6ff', tilt: 0.41 },
-  { name: 'Mars', radius: 0.22, distance: 3.2, speed: 0.65, color: '#ff7043' },
-  { name: 'Jupiter', radius: 0.6, distance: 4.4, speed: 0.35, color: '#d0a06b' },
-  { name: 'Saturn', radius: 0.5, distance: 5.6, speed: 0.3, color: '#d9c38f' },
-  { name: 'Uranus', radius: 0.38, distance: 6.6, speed: 0.22, color: '#9bd6ff' },
-  { name: 'Neptune', radius: 0.36, distance: 7.3, speed: 0.18, color: '#6f8bff' },
-]
-
-function createDotCloud(count = 2000) {
-  const geometry = new THREE.BufferGeometry()
-  // Initial positions: tight concentrated sphere (contracted state)
-  const initialPositions = new Float32Array(count * 3)
-  // Target positions: scattered fragments (expanded state)
-  const targetPositions = new Float32Array(count * 3)
-  const radius = 0.6 // Smaller, tighter sphere radius
-  
-  for (let i = 0; i < count; i++) {
-    // Initial: tight uniform sphere surface (more concentrated)
-    const u = Math.random()
-    const v = Math.random()
-    const theta = 2 * Math.PI * u
-    const phi = Math.acos(2 * v - 1)
-    // Use uniform distribution on sphere surface for tighter ball
-    const r = radius * (0.8 + Math.random() * 0.2) // Slight variation but mostly on surface
-    
-    initialPositions[i * 3] = r * Math.sin(phi) * Math.cos(theta)
-    initialPositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta)
-    initialPositions[i * 3 + 2] = r * Math.cos(phi)
-    
-    // Target: scattered fragments (expanded)
-    const spread = 8
-    const rTarget = spread * Math.cbrt(Math.random())
-    const thetaTarget = Math.random() * Math.PI * 2
-    const phiTarget = Math.acos(Math.random() * 2 - 1)
-    
-    targetPositions[i * 3] = rTarget * Math.sin(phiTarget) * Math.cos(thetaTarget)
-    targetPositions[i * 3 + 1] = rTarget * Math.sin(phiTarget) * Math.sin(thetaTarget)
-    targetPositions[i * 3 + 2] = rTarget * Math.cos(phiTarget)
-  }
-  
-  geometry.setAttribute('position', new THREE.BufferAttribute(initialPositions, 3))
-  geometry.setAttribute('targetPos', new THREE.BufferAttribute(targetPositions, 3))
-  
-  const material = new THREE.PointsMaterial({
-    color: 0x8fd6ff,
-    size: 0.08, // Slightly larger dots for better visibility
-    transparent: true,
-    opacity: 0.95,
-    blending: THREE.AdditiveBlending,
-    depthWrite: false,
-  })
-  const points = new THREE.Points(geometry, material)
-  points.userData = { initialPositions, targetPositions }
-  return points
-}
-
-export default function SceneRenderer({ controls, mode, modelUrl }: SceneProps) {
+import type { AudioLevels, HandControls, SceneMode, SceneProps } from '../types'
+import { audioStore } from '../audio/store'
+import { createRigs, DEFAULT_RIG, rewindRigs, type CameraRigType } from '../camera/rigs'
+import { cameraStore } from '../camera/store'
+import { captureStore } from '../capture/store'
+import { createCameraTween } from '../camera/tween'
+import { INDEX_TIP } from '../gestures/landmarks'
+import { gestureRegistry } from '../gestures/registry'
+import { DEFAULT_CAMERA } from '../scenes/camera'
+import type { CameraPreset, SceneContext, SceneInstance } from '../scenes/types'
+import { useSceneModule } from '../scenes/useSceneModule'
+import { createControlsInterpolator } from '../utils/controlsInterpolator'
+import { qualitySettings } from '../utils/quality'
+
+const CAMERA_TRANSITION = 1.2 // seconds to ease between modes, rigs and focus targets
+
+// Shared stage for the scene modules: camera, lights, stars and input. Each mode's
+// content comes from its module, set up the first time the mode is shown and kept
+// (hidden) while another mode is active.
+export default function SceneRenderer({ controls, mode, settings, onModelStatus, quality = 'high' }: SceneProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
-  const sceneRef = useRef<THREE.Scene | null>(null)
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null)
-  const systemGroupRef = useRef<THREE.Group | null>(null)
-  const modelRef = useRef<THREE.Object3D | null>(null)
-  const dotRef = useRef<THREE.Points | null>(null)
+  const contextRef = useRef<SceneContext | null>(null)
+  const instancesRef = useRef(new Map<SceneMode, SceneInstance>())
+  const activeRef = useRef<{ mode: SceneMode; instance: SceneInstance } | null>(null)
   const frameRef = useRef<number | null>(null)
   const resizeObserver = useRef<ResizeObserver | null>(null)
   const controlsRef = useRef(controls)
-  const modeRef = useRef<SceneMode>(mode)
+  const interpolatorRef = useRef(createControlsInterpolator())
+  const settingsRef = useRef(settings)
+  const onModelStatusRef = useRef(onModelStatus)
+  const qualityRef = useRef(quality)
+  const cameraLookRef = useRef(new THREE.Vector3(0, 4.5, 0))
+  const { module: sceneModule } = useSceneModule(mode)
 
   useEffect(() => {
     const container = containerRef.current
@@ -90,72 +40,23 @@ export default function SceneRenderer({ controls, mode, modelUrl }: SceneProps)
 
     const scene = new THREE.Scene()
     scene.fog = new THREE.FogExp2(0x050608, 0.04)
-    sceneRef.current = scene
 
-    const camera = new THREE.PerspectiveCamera(60, container.clientWidth / container.clientHeight, 0.1, 100)
+    const camera = new THREE.PerspectiveCamera(60, container.clientWidth / container.clientHeight, 0.1, 1000)
     // Default zoomed out position for solar system
     camera.position.set(0, 4.5, 15)
-    cameraRef.current = camera
 
+    const settings = qualitySettings[qualityRef.current]
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true })
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, settings.maxPixelRatio))
     renderer.setSize(container.clientWidth, container.clientHeight)
-    rendererRef.current = renderer
     container.appendChild(renderer.domElement)
 
-    // Lighting
+    // Lighting; the point light sits in the sun and also lights uploads
     const ambient = new THREE.AmbientLight(0x404040, 0.8)
     scene.add(ambient)
     const sunLight = new THREE.PointLight(0xffe7b0, 3.4, 120)
     scene.add(sunLight)
 
-    // Sun
-    const sunGeo = new THREE.SphereGeometry(1, 48, 48)
-    const sunMat = new THREE.MeshStandardMaterial({
-      emissive: new THREE.Color('#ffb347'),
-      emissiveIntensity: 1.8,
-      color: '#ffcc80',
-      roughness: 0.4,
-      metalness: 0.1,
-    })
-    const sunMesh = new THREE.Mesh(sunGeo, sunMat)
-    sunMesh.name = 'sun'
-    scene.add(sunMesh)
-
-    // Planet system group
-    const systemGroup = new THREE.Group()
-    systemGroupRef.current = systemGroup
-    scene.add(systemGroup)
-
-    // Planets + rings (for Saturn)
-    PLANETS.forEach((p) => {
-      const geo = new THREE.SphereGeometry(p.radius, 32, 32)
-      const mat = new THREE.MeshStandardMaterial({
-        color: new THREE.Color(p.color),
-        roughness: 0.6,
-        metalness: 0.1,
-      })
-      const mesh = new THREE.Mesh(geo, mat)
-      mesh.position.x = p.distance
-      mesh.userData = { speed: p.speed, distance: p.distance, angle: Math.random() * Math.PI * 2 }
-      if (p.tilt) mesh.rotation.z = p.tilt
-      systemGroup.add(mesh)
-
-      if (p.name === 'Saturn') {
-        const ringGeo = new THREE.RingGeometry(p.radius * 1.1, p.radius * 1.8, 64, 1)
-        const ringMat = new THREE.MeshBasicMaterial({
-          color: '#d3c0a8',
-          side: THREE.DoubleSide,
-          transparent: true,
-          opacity: 0.65,
-        })
-        const ring = new THREE.Mesh(ringGeo, ringMat)
-        ring.rotation.x = Math.PI / 2.2
-        ring.position.x = p.distance
-        systemGroup.add(ring)
-      }
-    })
-
     // Stars background
     const stars = new THREE.Points(
       new THREE.BufferGeometry(),
@@ -175,226 +76,251 @@ export default function SceneRenderer({ controls, mode, modelUrl }: SceneProps)
     stars.name = 'stars'
     scene.add(stars)
 
-    // Dot cloud (hidden unless mode === 'dots')
-    const dots = createDotCloud()
-    dots.visible = mode === 'dots'
-    dotRef.current = dots
-    scene.add(dots)
+    contextRef.current = {
+      scene,
+      camera,
+      renderer,
+      quality: settings,
+      onModelStatus: (status) => onModelStatusRef.current?.(status),
+    }
+    const instances = instancesRef.current
 
     const handleResize = () => {
       const { clientWidth, clientHeight } = container
       renderer.setSize(clientWidth, clientHeight)
-      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, qualitySettings[qualityRef.current].maxPixelRatio))
       camera.aspect = clientWidth / clientHeight
       camera.updateProjectionMatrix()
+      instances.forEach((instance) => instance.resize?.(clientWidth, clientHeight))
     }
 
     resizeObserver.current = new ResizeObserver(handleResize)
     resizeObserver.current.observe(container)
 
-    const clock = new THREE.Clock()
-    const animate = () => {
-      const t = clock.getElapsedTime()
-
-      // Orbit planets if solar mode
-      const systemGroup = systemGroupRef.current
+    // Clicks and pointing go to the active scene; drags (pointer pan input) are not clicks
+    const down = { x: 0, y: 0 }
+    const handlePointerDown = (e: PointerEvent) => {
+      down.x = e.clientX
+      down.y = e.clientY
+    }
+    const handleClick = (e: MouseEvent) => {
+      if (Math.hypot(e.clientX - down.x, e.clientY - down.y) > 6) return
+      const rect = renderer.domElement.getBoundingClientRect()
+      const ndc = new THREE.Vector2(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1,
+      )
+      activeRef.current?.instance.pick?.(ndc, { clearOnMiss: true })
+    }
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown)
+    renderer.domElement.addEventListener('click', handleClick)
+
+    // Pointing picks at the index fingertip; frames arrive already mirrored to match the preview
+    const unsubscribePoint = gestureRegistry.subscribe('point', (event) => {
+      const tip = event.landmarks?.[INDEX_TIP]
+      if (event.type !== 'enter' || !tip) return
+      activeRef.current?.instance.pick?.(new THREE.Vector2(tip.x * 2 - 1, -tip.y * 2 + 1), { clearOnMiss: false })
+    })
 
-      if (modeRef.current === 'solar' && systemGroup) {
-        systemGroup.children.forEach((obj) => {
-          const data = obj.userData
-          if (data && typeof data.speed === 'number' && typeof data.distance === 'number') {
-            data.angle += data.speed * 0.005
-            obj.position.x = Math.cos(data.angle) * data.distance
-            obj.position.z = Math.sin(data.angle) * data.distance
-          }
-        })
-        // Auto-rotate solar system slowly
-        systemGroup.rotation.y = t * 0.05
+    // Scene time only advances with rendered frames, so captures can step it on a
+    // fixed timestep instead of following the wall clock
+    let sceneTime = 0
+    let lastWall = performance.now()
+    let suspended = false
+    let lastControls = controlsRef.current
+    const renderListeners = new Set<() => void>()
+    const rigs = createRigs()
+    const tween = createCameraTween(CAMERA_TRANSITION)
+    let framed: { preset: CameraPreset; rig: CameraRigType } | null = null
+    const eye = new THREE.Vector3()
+    const look = new THREE.Vector3()
+    const target = new THREE.Vector3()
+    const renderFrame = (dt: number, current: HandControls, audio: AudioLevels | null) => {
+      sceneTime += dt
+      const t = sceneTime
+      lastControls = current
+      const active = activeRef.current
+      active?.instance.update(dt, current, t, audio)
+
+      // A focused object wins over the scene's own framing
+      const focused = active?.instance.focus?.(target) ?? null
+      const base = focused ?? active?.instance.camera() ?? DEFAULT_CAMERA
+      if (!focused) target.set(0, base.baseY, 0)
+      if (scene.fog instanceof THREE.FogExp2) scene.fog.density = base.fog
+      stars.scale.setScalar(Math.max(1, base.maxDist / 25))
+
+      // Changing mode, rig or target eases over from wherever the camera is now
+      const cameraState = cameraStore.getState()
+      const mode = active?.mode
+      const rig = (mode && cameraState.rigs[mode]) || DEFAULT_RIG
+      if (framed?.preset !== base || framed.rig !== rig) {
+        if (framed) tween.start(t, camera.position, cameraLookRef.current)
+        framed = { preset: base, rig }
       }
 
-      // Apply hand controls
-      const zoom = controlsRef.current.zoom ?? 1
-      const panX = controlsRef.current.panX ?? 0
-      const panY = controlsRef.current.panY ?? 0
-      
-      // Zoom: lower zoom = farther out (default zoomed out), higher zoom = closer
-      const baseDist = modeRef.current === 'solar' ? 15 : 10
-      const dist = THREE.MathUtils.clamp(baseDist / zoom, 4, 25)
-      
-      // Pan: left/right and up/down camera movement
-      const panRange = 6 // How far camera can pan
-      const baseY = modeRef.current === 'solar' ? 4.5 : 4
-      const targetX = panX * panRange
-      const targetY = baseY + panY * panRange
-      const targetZ = dist
-      
-      camera.position.set(targetX, targetY, targetZ)
-      camera.lookAt(targetX, baseY, 0) // Look at center but offset by panX
-
-      const sun = scene.getObjectByName('sun')
-      if (sun) sun.rotation.y = t * 0.1
-
-      // Animate dots: contract to sphere (low zoom) or expand to fragments (high zoom)
-      if (dotRef.current && modeRef.current === 'dots') {
-        const dotGeo = dotRef.current.geometry
-        const posAttr = dotGeo.getAttribute('position') as THREE.BufferAttribute
-        const targetAttr = dotGeo.getAttribute('targetPos') as THREE.BufferAttribute
-        if (posAttr && targetAttr && dotRef.current.userData.initialPositions) {
-          // zoom 0.5-2.5 maps to expansion 0-1 (closed hand = zoom in = expand fragments)
-          const expansion = THREE.MathUtils.clamp((zoom - 0.5) / 2.0, 0, 1)
-          const initial = dotRef.current.userData.initialPositions as Float32Array
-          const target = dotRef.current.userData.targetPositions as Float32Array
-          for (let i = 0; i < posAttr.count; i++) {
-            const ix = i * 3
-            posAttr.array[ix] = THREE.MathUtils.lerp(initial[ix], target[ix], expansion)
-            posAttr.array[ix + 1] = THREE.MathUtils.lerp(initial[ix + 1], target[ix + 1], expansion)
-            posAttr.array[ix + 2] = THREE.MathUtils.lerp(initial[ix + 2], target[ix + 2], expansion)
-          }
-          posAttr.needsUpdate = true
-        }
-        // Rotate dots slowly for visual effect
-        dotRef.current.rotation.y = t * 0.1
-        dotRef.current.rotation.x = t * 0.05
-      }
-      
-      // Rotate model slowly
-      if (modelRef.current && modeRef.current === 'model') {
-        modelRef.current.rotation.y = t * 0.1
-        modelRef.current.rotation.x = t * 0.05
+      // User zoom limits apply to the scene's framing, not to focused close-ups
+      const limits = mode && !focused ? cameraState.limits[mode] : undefined
+      const preset = limits
+        ? { ...base, minDist: limits.minDist ?? base.minDist, maxDist: limits.maxDist ?? base.maxDist }
+        : base
+
+      // A scene can hold the pan while the hand motion drives something else
+      const held = active?.instance.heldPan?.()
+      const controls = held ? { ...current, ...held } : current
+      rigs[rig].update({ controls, preset, target, dt, time: t }, eye, look)
+      tween.apply(t, eye, look)
+
+      camera.position.copy(eye)
+      cameraLookRef.current.copy(look)
+      camera.lookAt(look)
+      // Two-hand roll tilts the horizon
+      camera.rotateZ(current.rotationZ ?? 0)
+      // Close-ups of small bodies need a nearer clipping plane
+      const near = THREE.MathUtils.clamp(camera.position.distanceTo(look) * 0.01, 0.001, 0.1)
+      if (near !== camera.near) {
+        camera.near = near
+        camera.updateProjectionMatrix()
       }
 
-      renderer.render(scene, camera)
+      if (!active?.instance.render?.()) renderer.render(scene, camera)
+      renderListeners.forEach((listener) => listener())
+    }
+
+    const animate = () => {
+      const now = performance.now()
+      const dt = (now - lastWall) / 1000
+      lastWall = now
+      // Apply hand controls, interpolated between tracker samples for this render frame
+      if (!suspended) renderFrame(dt, interpolatorRef.current.sample(now) ?? controlsRef.current, audioStore.sample(dt))
       frameRef.current = requestAnimationFrame(animate)
     }
     frameRef.current = requestAnimationFrame(animate)
 
+    // Copies the frame out straight after rendering, before the WebGL buffer is cleared
+    const grabFrame = () => {
+      const copy = document.createElement('canvas')
+      copy.width = renderer.domElement.width
+      copy.height = renderer.domElement.height
+      copy.getContext('2d')?.drawImage(renderer.domElement, 0, 0)
+      return new Promise<Blob>((resolve, reject) =>
+        copy.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the frame'))), 'image/png'),
+      )
+    }
+    const setRenderRatio = (ratio: number) => {
+      renderer.setPixelRatio(ratio)
+      instances.forEach((instance) => instance.resize?.(container.clientWidth, container.clientHeight))
+    }
+
+    captureStore.attach({
+      canvas: renderer.domElement,
+      screenshot: async (scale) => {
+        const base = renderer.getPixelRatio()
+        const maxSize = renderer.capabilities.maxTextureSize
+        suspended = true
+        try {
+          setRenderRatio(Math.min(base * scale, maxSize / container.clientWidth, maxSize / container.clientHeight))
+          renderFrame(0, lastControls, audioStore.getLevels())
+          return await grabFrame()
+        } finally {
+          setRenderRatio(base)
+          suspended = false
+        }
+      },
+      // Scene time starts at 0 and the rigs from the start of their motion, and live
+      // audio is left out, so the frames only depend on the scene state and the
+      // frozen controls
+      renderFrames: async (count, fps, onFrame, signal) => {
+        const frozen = lastControls
+        const liveTime = sceneTime
+        const restoreRigs = rewindRigs(rigs)
+        sceneTime = 0
+        suspended = true
+        try {
+          for (let i = 0; i < count && !signal.aborted; i++) {
+            renderFrame(i === 0 ? 0 : 1 / fps, frozen, null)
+            await onFrame(await grabFrame(), i)
+          }
+        } finally {
+          sceneTime = liveTime
+          restoreRigs()
+          suspended = false
+        }
+      },
+      onRender: (listener) => {
+        renderListeners.add(listener)
+        return () => {
+          renderListeners.delete(listener)
+        }
+      },
+    })
+
     return () => {
+      captureStore.attach(null)
       resizeObserver.current?.disconnect()
       resizeObserver.current = null
       if (frameRef.current !== null) {
         cancelAnimationFrame(frameRef.current)
         frameRef.current = null
       }
+      instances.forEach((instance) => instance.dispose())
+      instances.clear()
+      activeRef.current = null
+      contextRef.current = null
       stars.geometry.dispose()
       ;(stars.material as THREE.Material).dispose()
-      sunGeo.dispose()
-      sunMat.dispose()
-      systemGroup.children.forEach((obj) => {
-        const mesh = obj as THREE.Mesh
-        if (mesh.geometry) mesh.geometry.dispose()
-        if (mesh.material && 'dispose' in mesh.material) (mesh.material as THREE.Material).dispose()
-      })
-      if (dotRef.current) {
-        dotRef.current.geometry.dispose()
-        ;(dotRef.current.material as THREE.Material).dispose()
-      }
-      if (modelRef.current) {
-        modelRef.current.traverse((child) => {
-          const c = child as THREE.Mesh
-          if (c.isMesh) {
-            c.geometry?.dispose()
-            if (Array.isArray(c.material)) {
-              c.material.forEach((m) => m.dispose && m.dispose())
-            } else if (c.material && 'dispose' in c.material) {
-              c.material.dispose()
-            }
-          }
-        })
-      }
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown)
+      renderer.domElement.removeEventListener('click', handleClick)
+      unsubscribePoint()
       renderer.dispose()
       container.removeChild(renderer.domElement)
     }
   }, [])
 
-  // Toggle visibility based on mode
+  // Declared before the mode effect so a scene set up in the same commit gets current settings
   useEffect(() => {
-    const scene = sceneRef.current
-    if (!scene) return
-    const sun = scene.getObjectByName('sun')
-    const stars = scene.getObjectByName('stars')
-    if (sun) sun.visible = mode === 'solar'
-    if (stars) stars.visible = true
-    if (systemGroupRef.current) systemGroupRef.current.visible = mode === 'solar'
-    if (dotRef.current) dotRef.current.visible = mode === 'dots'
-    if (modelRef.current) modelRef.current.visible = mode === 'model'
-    modeRef.current = mode
-  }, [mode])
+    settingsRef.current = settings
+    instancesRef.current.forEach((instance) => instance.configure?.(settings))
+  }, [settings])
 
+  // Show the mode's scene once its module has loaded, setting it up on first use
   useEffect(() => {
-    controlsRef.current = controls
-  }, [controls])
+    const context = contextRef.current
+    if (!context || !sceneModule) return
+    const instances = instancesRef.current
+    let instance = instances.get(mode)
+    if (!instance) {
+      instance = sceneModule.setup(context, settingsRef.current)
+      instances.set(mode, instance)
+      context.scene.add(instance.root)
+    }
+    instances.forEach((other) => {
+      other.root.visible = other === instance
+    })
+    activeRef.current = { mode, instance }
+  }, [mode, sceneModule])
 
-  // Load model or image when URL changes
   useEffect(() => {
-    if (!sceneRef.current) return
-    if (!modelUrl) {
-      if (modelRef.current) {
-        sceneRef.current.remove(modelRef.current)
-        modelRef.current = null
-      }
-      return
-    }
+    onModelStatusRef.current = onModelStatus
+  }, [onModelStatus])
 
-    // Extract URL and file type info
-    const [url, fileType] = modelUrl.split('|')
-    const urlLower = (fileType || url).toLowerCase()
-    const isImage =
-      urlLower.includes('image') ||
-      urlLower.endsWith('.jpg') ||
-      urlLower.endsWith('.jpeg') ||
-      urlLower.endsWith('.png') ||
-      urlLower.endsWith('.webp') ||
-      urlLower.startsWith('image/')
+  // Presets change resolution plus whatever detail each scene ties to them
+  useEffect(() => {
+    const context = contextRef.current
+    const container = containerRef.current
+    if (!context || !container || qualityRef.current === quality) return
+    qualityRef.current = quality
+    context.quality = qualitySettings[quality]
+    context.renderer.setPixelRatio(Math.min(window.devicePixelRatio, context.quality.maxPixelRatio))
+    instancesRef.current.forEach((instance) => {
+      instance.setQuality?.(context.quality)
+      instance.resize?.(container.clientWidth, container.clientHeight)
+    })
+  }, [quality])
 
-    if (isImage) {
-      // Load image as texture on a sphere
-      const textureLoader = new THREE.TextureLoader()
-      textureLoader.load(
-        url,
-        (texture) => {
-          if (modelRef.current && sceneRef.current) {
-            sceneRef.current.remove(modelRef.current)
-          }
-          texture.flipY = false // Fix image orientation
-          const geometry = new THREE.SphereGeometry(3, 64, 64)
-          const material = new THREE.MeshStandardMaterial({
-            map: texture,
-            side: THREE.DoubleSide,
-            emissive: new THREE.Color(0x222222),
-            emissiveIntensity: 0.2,
-          })
-          const sphere = new THREE.Mesh(geometry, material)
-          sphere.name = 'imageSphere'
-          modelRef.current = sphere
-          sceneRef.current?.add(sphere)
-        },
-        undefined,
-        (error) => {
-          console.error('Error loading image:', error)
-        },
-      )
-    } else {
-      // Load 3D model (GLTF/GLB/OBJ)
-      const loader = new GLTFLoader()
-      loader.load(
-        url,
-        (gltf: GLTF) => {
-          if (modelRef.current && sceneRef.current) {
-            sceneRef.current.remove(modelRef.current)
-          }
-          modelRef.current = gltf.scene
-          modelRef.current.position.set(0, 0, 0)
-          modelRef.current.scale.setScalar(2)
-          sceneRef.current?.add(modelRef.current)
-        },
-        undefined,
-        (error) => {
-          console.error('Error loading 3D model:', error)
-        },
-      )
-    }
-  }, [modelUrl])
+  useEffect(() => {
+    controlsRef.current = controls
+    interpolatorRef.current.push(controls)
+  }, [controls])
 
   return <div ref={containerRef} className="canvas-wrap" />
 }
-
@@ -0,0 +1,61 @@
+import { X } from 'lucide-react'
+import { findBody, solarData } from '../solar/dataset'
+import { distanceAU, heliocentricPosition } from '../solar/kepler'
+import { solarStore, useSolar } from '../solar/store'
+
+const fmt = (value: number, digits = 0) => value.toLocaleString(undefined, { maximumFractionDigits: digits })
+
+const formatDays = (days: number) => {
+  const abs = Math.abs(days)
+  return abs >= 730 ? `${fmt(abs / 365.25, 1)} years` : abs >= 2 ? `${fmt(abs, 1)} days` : `${fmt(abs * 24, 1)} hours`
+}
+
+// Stats for the focused body, shown while the camera is locked onto it
+export default function PlanetCard() {
+  const { selected, jd } = useSolar()
+  const body = selected ? findBody(selected) : null
+  if (!body) return null
+
+  const rows: [string, string][] = []
+  if (body.kind === 'sun') {
+    rows.push(['Radius', `${fmt(solarData.sun.radiusKm)} km`], ['Rotation', formatDays(solarData.sun.rotationHours / 24)])
+  } else if (body.kind === 'planet') {
+    const { planet } = body
+    rows.push(
+      ['Radius', `${fmt(planet.radiusKm)} km`],
+      ['Mass', `${fmt(planet.massEarths, 3)} Earths`],
+      ['From Sun', `${fmt(distanceAU(heliocentricPosition(planet.orbit, jd)), 3)} AU`],
+      ['Orbit', `${formatDays(planet.orbit.periodDays)} · e ${planet.orbit.e.toFixed(3)} · i ${planet.orbit.i.toFixed(2)}°`],
+      ['Day', `${formatDays(planet.rotationHours / 24)}${planet.rotationHours < 0 ? ' (retrograde)' : ''}`],
+      ['Axial tilt', `${planet.axialTiltDeg.toFixed(1)}°`],
+      ['Moons shown', planet.moons.length ? planet.moons.map((m) => m.name).join(', ') : 'none'],
+    )
+  } else {
+    const { moon, planet } = body
+    rows.push(
+      ['Orbits', planet.name],
+      ['Radius', `${fmt(moon.radiusKm, 1)} km`],
+      ['Distance', `${fmt(moon.distanceKm)} km`],
+      ['Period', `${formatDays(moon.periodDays)}${moon.periodDays < 0 ? ' (retrograde)' : ''}`],
+    )
+  }
+
+  return (
+    <div className="planet-card glass">
+      <div className="planet-card__header">
+        <h2>{body.name}</h2>
+        <button type="button" className="shape-btn compact" onClick={() => solarStore.select(null)} aria-label="Close">
+          <X size={12} />
+        </button>
+      </div>
+      <dl>
+        {rows.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { Download, Link, Save, X } from 'lucide-react'
+import { deletePreset, listPresets, restoreModel, savePreset, type LibraryEntry } from '../presets/library'
+import type { ScenePreset } from '../presets/preset'
+import { downloadPreset, encodePresetHash, parsePresetFile } from '../presets/share'
+import type { ModelSource } from '../types'
+
+interface PresetControlsProps {
+  model: ModelSource | null
+  onCapture: (name: string) => ScenePreset
+  onApply: (preset: ScenePreset, model: ModelSource | null) => void
+}
+
+const message = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback)
+
+// Save the session as a link, a JSON file or into the local library (with the upload)
+export default function PresetControls({ model, onCapture, onApply }: PresetControlsProps) {
+  const [name, setName] = useState('My scene')
+  const [entries, setEntries] = useState<LibraryEntry[]>([])
+  const [note, setNote] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const report = (text: string | null, err: string | null = null) => {
+    setNote(text)
+    setError(err)
+  }
+
+  const refresh = () =>
+    listPresets()
+      .then(setEntries)
+      .catch((err) => setError(message(err, 'Could not read the preset library')))
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const handleLink = async () => {
+    const hash = encodePresetHash(onCapture(name))
+    window.history.replaceState(null, '', hash)
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      report('Link copied')
+    } catch {
+      report('Link is in the address bar')
+    }
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const preset = parsePresetFile(await file.text())
+      onApply(preset, null)
+      setName(preset.name)
+      report(`Loaded ${preset.name}`)
+    } catch (err) {
+      report(null, message(err, 'Could not read preset'))
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      await savePreset(onCapture(name), model)
+      report(model ? `Saved with ${model.name}` : 'Saved')
+      await refresh()
+    } catch (err) {
+      report(null, message(err, 'Could not save preset'))
+    }
+  }
+
+  const handleLoad = (entry: LibraryEntry) => {
+    onApply(entry.preset, entry.model && restoreModel(entry.model))
+    setName(entry.preset.name)
+    report(`Loaded ${entry.preset.name}`)
+  }
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    try {
+      await deletePreset(entry.id)
+      await refresh()
+    } catch (err) {
+      report(null, message(err, 'Could not delete preset'))
+    }
+  }
+
+  return (
+    <div className="controls__row">
+      <p className="label">Presets</p>
+      <input
+        className="text-input"
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Preset name"
+      />
+      <button type="button" className="shape-btn compact" onClick={handleSave} title="Keep in this browser, with the upload">
+        <Save size={12} /> Save
+      </button>
+      <button type="button" className="shape-btn compact" onClick={handleLink} title="Share without the upload">
+        <Link size={12} /> Link
+      </button>
+      <button type="button" className="shape-btn compact" onClick={() => downloadPreset(onCapture(name))}>
+        <Download size={12} /> JSON
+      </button>
+      <label className="file-input-label">
+        <input type="file" accept=".json,application/json" onChange={handleImport} />
+        <span className="shape-btn compact">Import</span>
+      </label>
+      {entries.map((entry) => (
+        <span key={entry.id} className="preset-entry">
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={() => handleLoad(entry)}
+            title={`Saved ${new Date(entry.savedAt).toLocaleString()}${entry.model ? ` with ${entry.model.name}` : ''}`}
+          >
+            {entry.preset.name}
+          </button>
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={() => handleDelete(entry)}
+            aria-label={`Delete ${entry.preset.name}`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {note && <span>{note}</span>}
+      {error && <span className="tension-note">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { useState, type ChangeEvent } from 'react'
+import { Circle, Pause, Play, Square, X } from 'lucide-react'
+import { parseRecording } from '../recording/recording'
+import { recordingStore, useRecording } from '../recording/store'
+
+const speeds = [0.25, 0.5, 1, 2]
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+export default function SessionControls() {
+  const { recording, recordedFrames, replay } = useRecording()
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      recordingStore.loadReplay(parseRecording(await file.text()), file.name)
+      setLoadError(null)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read recording')
+    }
+  }
+
+  return (
+    <div className="controls__row">
+      <p className="label">Session</p>
+      {!replay && (
+        <button
+          type="button"
+          className={`shape-btn compact ${recording ? 'active' : ''}`}
+          onClick={recording ? recordingStore.stopRecording : recordingStore.startRecording}
+        >
+          {recording ? <Square size={12} /> : <Circle size={12} />} {recording ? `Stop (${recordedFrames})` : 'Record'}
+        </button>
+      )}
+      {!recording && (
+        <label className="file-input-label">
+          <input type="file" accept=".json,application/json" onChange={handleFile} />
+          <span className="shape-btn compact">Load replay</span>
+        </label>
+      )}
+      {replay && (
+        <>
+          <button
+            type="button"
+            className="shape-btn compact"
+            onClick={replay.playing ? recordingStore.pause : recordingStore.play}
+            aria-label={replay.playing ? 'Pause' : 'Play'}
+          >
+            {replay.playing ? <Pause size={12} /> : <Play size={12} />}
+          </button>
+          <input
+            className="replay-seek"
+            type="range"
+            min={0}
+            max={replay.durationMs}
+            step={10}
+            value={replay.position}
+            onChange={(e) => recordingStore.seek(Number(e.target.value))}
+          />
+          <span>{`${formatTime(replay.position)} / ${formatTime(replay.durationMs)}`}</span>
+          {speeds.map((speed) => (
+            <button
+              key={speed}
+              type="button"
+              className={`shape-btn compact ${replay.speed === speed ? 'active' : ''}`}
+              onClick={() => recordingStore.setSpeed(speed)}
+            >
+              {`${speed}×`}
+            </button>
+          ))}
+          <button type="button" className="shape-btn compact" onClick={recordingStore.closeReplay} aria-label="Close replay">
+            <X size={12} />
+          </button>
+        </>
+      )}
+      {loadError && <span className="tension-note">{loadError}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import type { ChangeEvent } from 'react'
+import { FastForward, Pause, Play, Rewind, Repeat } from 'lucide-react'
+import { julianToDate } from '../solar/kepler'
+import { TRUE_SCALE_BODY_FACTOR } from '../solar/solarSystem'
+import { solarStore, useSolar } from '../solar/store'
+
+const formatSpeed = (days: number) => {
+  const abs = Math.abs(days)
+  const sign = days < 0 ? '−' : ''
+  if (abs >= 365) return `${sign}${(abs / 365.25).toFixed(1)} yr/s`
+  if (abs >= 1) return `${sign}${abs.toFixed(abs < 10 ? 1 : 0)} d/s`
+  return `${sign}${(abs * 24).toFixed(1)} h/s`
+}
+
+// yyyy-mm-dd for the date input, in UTC like the simulation clock
+const toDateValue = (date: Date) => date.toISOString().slice(0, 10)
+
+export default function SolarControls() {
+  const { jd, speed, paused, scale } = useSolar()
+  const date = julianToDate(jd)
+
+  const handleDate = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.valueAsDate
+    if (picked && !Number.isNaN(picked.getTime())) solarStore.jumpTo(picked)
+  }
+
+  return (
+    <div className="controls__row">
+      <p className="label">Time</p>
+      <button
+        type="button"
+        className="shape-btn compact"
+        onClick={() => solarStore.setSpeed(speed / 4)}
+        aria-label="Slower"
+      >
+        <Rewind size={12} />
+      </button>
+      <button
+        type="button"
+        className="shape-btn compact"
+        onClick={solarStore.togglePaused}
+        aria-label={paused ? 'Play' : 'Pause'}
+      >
+        {paused ? <Play size={12} /> : <Pause size={12} />}
+      </button>
+      <button
+        type="button"
+        className="shape-btn compact"
+        onClick={() => solarStore.setSpeed(speed * 4)}
+        aria-label="Faster"
+      >
+        <FastForward size={12} />
+      </button>
+      <button
+        type="button"
+        className={`shape-btn compact ${speed < 0 ? 'active' : ''}`}
+        onClick={solarStore.reverse}
+        title="Run time backwards"
+      >
+        <Repeat size={12} /> Reverse
+      </button>
+      <span>{formatSpeed(speed)}</span>
+      <input className="date-input" type="date" value={toDateValue(date)} onChange={handleDate} />
+      <button type="button" className="shape-btn compact" onClick={() => solarStore.jumpTo(new Date())}>
+        Now
+      </button>
+      <p className="label">Scale</p>
+      {(['log', 'true'] as const).map((option) => (
+        <button
+          key={option}
+          type="button"
+          className={`shape-btn compact ${scale === option ? 'active' : ''}`}
+          onClick={() => solarStore.setScale(option)}
+          title={
+            option === 'true'
+              ? `Real distances; planet systems enlarged ×${TRUE_SCALE_BODY_FACTOR} to stay visible`
+              : 'Compressed distances'
+          }
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  )
+}
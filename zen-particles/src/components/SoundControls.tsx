@@ -0,0 +1,34 @@
+import { Volume2, VolumeX } from 'lucide-react'
+import { soundStore, useSound } from '../sound/store'
+
+export default function SoundControls() {
+  const { muted, volume, error } = useSound()
+
+  return (
+    <div className="controls__row">
+      <p className="label">Sound</p>
+      <button
+        type="button"
+        className={`shape-btn compact ${muted ? '' : 'active'}`}
+        onClick={() => soundStore.setMuted(!muted)}
+        aria-label={muted ? 'Unmute' : 'Mute'}
+        title="Ambient drone, pad and fist chimes following your hands"
+      >
+        {muted ? <VolumeX size={12} /> : <Volume2 size={12} />} {muted ? 'Off' : 'On'}
+      </button>
+      <label className="slider-field">
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={volume}
+          onChange={(e) => soundStore.setVolume(Number(e.target.value))}
+        />
+        {`${Math.round(volume * 100)}%`}
+      </label>
+      {error && <span className="tension-note">{error}</span>}
+    </div>
+  )
+}
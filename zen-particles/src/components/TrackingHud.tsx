@@ -0,0 +1,36 @@
+import type { HandControls } from '../types'
+
+export interface TrackingStats {
+  tension: number | null
+  isFistClosed: boolean
+  baseWrist: { x: number; y: number } | null
+  controls: HandControls
+  fps: number
+  latency: number // ms from frame capture to landmarks
+  hands: number
+}
+
+const fmt = (value: number, digits = 2) => value.toFixed(digits)
+
+export default function TrackingHud({ stats }: { stats: TrackingStats }) {
+  const { tension, isFistClosed, baseWrist, controls, fps, latency, hands } = stats
+
+  return (
+    <div className="tracking-hud glass">
+      <span>hands</span>
+      <span>{hands}</span>
+      <span>tension</span>
+      <span>{tension === null ? '—' : fmt(tension)}</span>
+      <span>fist</span>
+      <span>{isFistClosed ? 'closed' : 'open'}</span>
+      <span>base wrist</span>
+      <span>{baseWrist ? `${fmt(baseWrist.x)}, ${fmt(baseWrist.y)}` : '—'}</span>
+      <span>zoom</span>
+      <span>{fmt(controls.zoom)}</span>
+      <span>pan</span>
+      <span>{`${fmt(controls.panX)}, ${fmt(controls.panY)}`}</span>
+      <span>detect</span>
+      <span>{`${fmt(fps, 0)} fps · ${fmt(latency, 0)} ms`}</span>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { FlipHorizontal2 } from 'lucide-react'
+import { fpsPresets, resolutionPresets, type ResolutionPreset } from '../webcam/devices'
+import { useWebcam, webcamStore } from '../webcam/store'
+
+const resolutions = Object.keys(resolutionPresets) as ResolutionPreset[]
+
+export default function WebcamControls() {
+  const { settings, devices, permission, active } = useWebcam()
+  // A remembered camera that is unplugged stays selected; the default stands in
+  const missing = settings.deviceId !== null && !devices.some((d) => d.deviceId === settings.deviceId)
+
+  return (
+    <div className="controls__row">
+      <p className="label">Camera</p>
+      <select
+        className="text-input"
+        value={settings.deviceId ?? ''}
+        onChange={(e) => webcamStore.selectDevice(e.target.value || null)}
+        title="Camera used for hand tracking"
+      >
+        <option value="">default</option>
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </option>
+        ))}
+        {missing && <option value={settings.deviceId!}>disconnected camera</option>}
+      </select>
+      <div className="shape-grid">
+        {resolutions.map((resolution) => (
+          <button
+            key={resolution}
+            type="button"
+            className={`shape-btn compact ${settings.resolution === resolution ? 'active' : ''}`}
+            onClick={() => webcamStore.setResolution(resolution)}
+            title="Higher resolutions track small or distant hands better but cost more"
+          >
+            {resolution}
+          </button>
+        ))}
+      </div>
+      <div className="shape-grid">
+        {fpsPresets.map((fps) => (
+          <button
+            key={fps}
+            type="button"
+            className={`shape-btn compact ${settings.fps === fps ? 'active' : ''}`}
+            onClick={() => webcamStore.setFps(fps)}
+          >
+            {`${fps} fps`}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        className={`shape-btn compact ${settings.mirror ? 'active' : ''}`}
+        onClick={webcamStore.toggleMirror}
+        title="Selfie view: the preview and hand movement are flipped so moving right pans right"
+      >
+        <FlipHorizontal2 size={12} /> mirror
+      </button>
+      {active && <span>{`${active.width}×${active.height} @ ${active.frameRate} fps`}</span>}
+      {missing && <span className="tension-note">Selected camera not connected; using the default</span>}
+      {permission === 'denied' && (
+        <span className="tension-note">Camera blocked; allow it in the browser's site settings</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+// MediaPipe runtime and model are served from the app's own origin (see the
+// mediapipeAssets plugin in vite.config.ts), so tracking works offline.
+
+export const MEDIAPIPE_VERSION = __MEDIAPIPE_VERSION__
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`)
+
+export const assetBaseUrl = withTrailingSlash(
+  import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe/`,
+)
+
+export interface MediaPipeAssets {
+  wasmPath: string
+  modelPath: string
+  manifestPath: string
+}
+
+export function resolveAssets(base = assetBaseUrl): MediaPipeAssets {
+  const absolute = new URL(base, window.location.href).href
+  return {
+    wasmPath: `${absolute}wasm`,
+    modelPath: import.meta.env.VITE_HAND_MODEL_URL || `${absolute}hand_landmarker.task`,
+    manifestPath: `${absolute}manifest.json`,
+  }
+}
+
+// The wasm glue must match the JS API it is loaded by; a stale copy on a custom
+// asset host fails with obscure errors deep inside MediaPipe, so check up front
+export async function checkAssetVersion(assets: MediaPipeAssets) {
+  let manifest: { version?: string }
+  try {
+    const response = await fetch(assets.manifestPath)
+    if (!response.ok) throw new Error(String(response.status))
+    manifest = await response.json()
+  } catch {
+    console.warn(`No MediaPipe manifest at ${assets.manifestPath}, skipping version check`)
+    return
+  }
+  if (manifest.version && manifest.version !== MEDIAPIPE_VERSION) {
+    throw new Error(
+      `MediaPipe assets are version ${manifest.version} but the app uses ${MEDIAPIPE_VERSION}; redeploy the assets`,
+    )
+  }
+}
+
+// Downloads a binary asset, reporting progress 0..1 (null when the size is unknown)
+export async function fetchWithProgress(url: string, onProgress: (progress: number | null) => void) {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load ${url} (${response.status})`)
+
+  const total = Number(response.headers.get('content-length')) || 0
+  if (!response.body) {
+    onProgress(null)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    received += value.length
+    onProgress(total ? Math.min(received / total, 1) : null)
+  }
+
+  const data = new Uint8Array(received)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset)
+    offset += chunk.length
+  })
+  return data
+}
@@ -0,0 +1,155 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision'
+import { resolveAssets } from './assets'
+import { toLandmarkerOptions } from './landmarkerOptions'
+import type { DetectionResult, LandmarkerConfig, WorkerRequest, WorkerResponse } from './messages'
+
+const assets = resolveAssets()
+
+export const defaultLandmarkerConfig: LandmarkerConfig = {
+  wasmPath: assets.wasmPath,
+  modelPath: assets.modelPath,
+  numHands: 2,
+  minTrackingConfidence: 0.4,
+  minHandPresenceConfidence: 0.4,
+}
+
+export type DetectorMode = 'worker' | 'main'
+
+export interface HandDetector {
+  mode: DetectorMode
+  // Hands a video frame to the detector; frames arriving while one is in flight are dropped
+  submit: (video: HTMLVideoElement, timestamp: number) => void
+  close: () => void
+}
+
+export type DetectorCallbacks = {
+  onResult: (result: DetectionResult) => void
+  // `fatal` when the detector stopped for good (the worker crashed) rather than one frame failing
+  onError: (message: string, fatal: boolean) => void
+}
+
+const WORKER_INIT_TIMEOUT_MS = 20000
+
+export async function createMainThreadDetector(
+  config: LandmarkerConfig,
+  { onResult, onError }: DetectorCallbacks,
+): Promise<HandDetector> {
+  const vision = await FilesetResolver.forVisionTasks(config.wasmPath)
+  const landmarker = await HandLandmarker.createFromOptions(vision, toLandmarkerOptions(config))
+
+  return {
+    mode: 'main',
+    submit: (video, timestamp) => {
+      try {
+        const result = landmarker.detectForVideo(video, timestamp)
+        onResult({
+          landmarks: result.landmarks ?? [],
+          handedness: result.handedness ?? [],
+          timestamp,
+          latency: performance.now() - timestamp,
+        })
+      } catch (err) {
+        onError(err instanceof Error ? err.message : 'Detection failed', false)
+      }
+    },
+    close: () => landmarker.close(),
+  }
+}
+
+export async function createWorkerDetector(
+  config: LandmarkerConfig,
+  { onResult, onError }: DetectorCallbacks,
+): Promise<HandDetector> {
+  // A classic worker, so MediaPipe can importScripts its wasm glue
+  const worker = new Worker(new URL('./handLandmarker.worker.ts', import.meta.url), { type: 'classic' })
+  const send = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer)
+  let inFlight = false
+  let closed = false
+
+  await new Promise<void>((resolve, reject) => {
+    const timeout = window.setTimeout(() => reject(new Error('Hand tracking worker timed out')), WORKER_INIT_TIMEOUT_MS)
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      window.clearTimeout(timeout)
+      if (event.data.type === 'ready') resolve()
+      else if (event.data.type === 'error') reject(new Error(event.data.message))
+    }
+    worker.onerror = (event) => {
+      window.clearTimeout(timeout)
+      reject(new Error(event.message || 'Hand tracking worker crashed'))
+    }
+    send({ type: 'init', config })
+  }).catch((err) => {
+    worker.terminate()
+    throw err
+  })
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data
+    if (closed) return
+    if (message.type === 'result') {
+      inFlight = false
+      onResult({ ...message, latency: performance.now() - message.timestamp })
+    } else if (message.type === 'error') {
+      inFlight = false
+      onError(message.message, false)
+    }
+  }
+  // A crash after init (wasm abort, out of memory) ends the detector; without this
+  // the frame in flight would never come back and every later one would be dropped
+  worker.onerror = (event) => {
+    if (closed) return
+    closed = true
+    inFlight = false
+    worker.terminate()
+    onError(event.message || 'Hand tracking worker crashed', true)
+  }
+
+  return {
+    mode: 'worker',
+    submit: (video, timestamp) => {
+      // Backpressure: skip this frame while the previous one is still being detected
+      if (inFlight || closed) return
+      inFlight = true
+      createImageBitmap(video)
+        .then((bitmap) => {
+          if (closed) {
+            bitmap.close()
+            return
+          }
+          send({ type: 'frame', bitmap, timestamp }, [bitmap])
+        })
+        .catch(() => {
+          inFlight = false
+        })
+    },
+    close: () => {
+      closed = true
+      send({ type: 'close' })
+    },
+  }
+}
+
+// Prefers the worker; falls back to main-thread detection where workers,
+// OffscreenCanvas or the worker's WebGL context aren't available. The dev server
+// serves workers unbundled, which a classic worker can't import from, so dev
+// detects on the main thread.
+export async function createHandDetector(
+  callbacks: DetectorCallbacks,
+  config: LandmarkerConfig = defaultLandmarkerConfig,
+  mode: DetectorMode | 'auto' = 'auto',
+): Promise<HandDetector> {
+  const canUseWorker =
+    !import.meta.env.DEV &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  if (mode !== 'main' && canUseWorker) {
+    try {
+      return await createWorkerDetector(config, callbacks)
+    } catch (err) {
+      if (mode === 'worker') throw err
+      console.warn('Hand tracking worker unavailable, detecting on the main thread:', err)
+    }
+  }
+  return createMainThreadDetector(config, callbacks)
+}
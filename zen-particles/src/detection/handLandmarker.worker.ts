@@ -0,0 +1,59 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision'
+import { toLandmarkerOptions } from './landmarkerOptions'
+import type { LandmarkerConfig, WorkerRequest, WorkerResponse } from './messages'
+
+let landmarker: HandLandmarker | null = null
+let busy = false
+// Only the newest frame is kept while detection runs; older ones are dropped
+let pending: { bitmap: ImageBitmap; timestamp: number } | null = null
+
+const post = (message: WorkerResponse) => self.postMessage(message)
+
+async function init(config: LandmarkerConfig) {
+  try {
+    const vision = await FilesetResolver.forVisionTasks(config.wasmPath)
+    // GPU delegate needs its own canvas off the main thread
+    landmarker = await HandLandmarker.createFromOptions(vision, toLandmarkerOptions(config, new OffscreenCanvas(1, 1)))
+    post({ type: 'ready' })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Hand landmarker failed to load' })
+  }
+}
+
+function drain() {
+  if (busy || !pending || !landmarker) return
+  const { bitmap, timestamp } = pending
+  pending = null
+  busy = true
+  try {
+    const result = landmarker.detectForVideo(bitmap, timestamp)
+    post({ type: 'result', landmarks: result.landmarks ?? [], handedness: result.handedness ?? [], timestamp })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Detection failed' })
+  } finally {
+    bitmap.close()
+    busy = false
+  }
+  drain()
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data
+  switch (message.type) {
+    case 'init':
+      init(message.config)
+      break
+    case 'frame':
+      pending?.bitmap.close()
+      pending = { bitmap: message.bitmap, timestamp: message.timestamp }
+      drain()
+      break
+    case 'close':
+      pending?.bitmap.close()
+      pending = null
+      landmarker?.close()
+      landmarker = null
+      self.close()
+      break
+  }
+})
@@ -0,0 +1,16 @@
+import type { HandLandmarkerOptions } from '@mediapipe/tasks-vision'
+import type { LandmarkerConfig } from './messages'
+
+// Shared by the worker and main-thread detectors so both create identical landmarkers
+export function toLandmarkerOptions(config: LandmarkerConfig, canvas?: OffscreenCanvas): HandLandmarkerOptions {
+  return {
+    baseOptions: config.modelBuffer
+      ? { modelAssetBuffer: config.modelBuffer, delegate: 'GPU' }
+      : { modelAssetPath: config.modelPath, delegate: 'GPU' },
+    canvas,
+    runningMode: 'VIDEO',
+    numHands: config.numHands,
+    minTrackingConfidence: config.minTrackingConfidence,
+    minHandPresenceConfidence: config.minHandPresenceConfidence,
+  }
+}
@@ -0,0 +1,29 @@
+import type { Category, NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+export interface LandmarkerConfig {
+  wasmPath: string
+  modelPath: string
+  modelBuffer?: Uint8Array // pre-fetched model (lets the UI show download progress)
+  numHands: number
+  minTrackingConfidence: number
+  minHandPresenceConfidence: number
+}
+
+export interface DetectionResult {
+  landmarks: NormalizedLandmark[][]
+  handedness: Category[][]
+  timestamp: number // performance.now() of the video frame the result belongs to
+  latency: number // ms from frame capture to result
+}
+
+// Main thread -> worker
+export type WorkerRequest =
+  | { type: 'init'; config: LandmarkerConfig }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'close' }
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; landmarks: NormalizedLandmark[][]; handedness: Category[][]; timestamp: number }
+  | { type: 'error'; message: string }
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+// Version of the installed @mediapipe/tasks-vision, injected by vite.config.ts
+declare const __MEDIAPIPE_VERSION__: string
+
+interface ImportMetaEnv {
+  // Where the MediaPipe wasm files, manifest and hand model are served from (default: <app base>/mediapipe/)
+  readonly VITE_MEDIAPIPE_ASSET_BASE?: string
+  // Overrides just the hand landmarker model URL (default: <asset base>/hand_landmarker.task)
+  readonly VITE_HAND_MODEL_URL?: string
+}
@@ -0,0 +1,275 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { applyBinding, defaultBindingProfile, readChannels, type GestureBinding } from '../bindings/bindings'
+import type { CalibrationProfile, Handedness } from '../calibration/profile'
+import { clampPan, clampZoom } from '../input/limits'
+import type { HandControls } from '../types'
+import { createChannelFilter, createControlFilters, decayTowardZero, type FilterConfig } from '../utils/signalFilters'
+import { computeTension, palmSize } from './landmarks'
+
+// One detection result, as produced live by the detector or read back from a recording
+export interface HandFrame {
+  landmarks: NormalizedLandmark[][]
+  handedness: (Handedness | undefined)[]
+  timestamp: number // ms
+}
+
+// The frame as seen in a mirrored (selfie) preview: moving a hand to your right
+// moves it right in the image, so pan, swipes and pointing follow the preview
+export function mirrorFrame(frame: HandFrame): HandFrame {
+  return { ...frame, landmarks: frame.landmarks.map((hand) => hand.map((p) => ({ ...p, x: 1 - p.x }))) }
+}
+
+// Pose of the line between both hands: spread drives zoom, tilt drives roll,
+// and the apparent palm size difference (closer hand looks bigger) drives yaw
+export function computeTwoHandPose(left: NormalizedLandmark[], right: NormalizedLandmark[]) {
+  const leftTip = left[8]
+  const rightTip = right[8]
+  const spread = Math.hypot(rightTip.x - leftTip.x, rightTip.y - leftTip.y)
+  const roll = Math.atan2(rightTip.y - leftTip.y, rightTip.x - leftTip.x)
+
+  const leftPalm = palmSize(left)
+  const rightPalm = palmSize(right)
+  const avgPalm = (leftPalm + rightPalm) / 2
+  const depth = (rightPalm - leftPalm) / avgPalm
+  const yaw = Math.atan2(depth, Math.max(spread / avgPalm, 0.5))
+
+  // Palms together = wrists and palm centres nearly touching
+  const wristGap = Math.hypot(right[0].x - left[0].x, right[0].y - left[0].y)
+  const palmGap = Math.hypot(right[9].x - left[9].x, right[9].y - left[9].y)
+  const palmsTogether = wristGap < avgPalm * 0.8 && palmGap < avgPalm * 0.8
+
+  return { spread, roll, yaw, palmsTogether }
+}
+
+// Intermediate values of the last mapped frame, for the debug HUD
+export interface MapperDebug {
+  tension: number | null // single-hand tension, null with zero or two hands
+  isFistClosed: boolean
+  baseWrist: { x: number; y: number } | null
+  smoothedHands: NormalizedLandmark[][]
+}
+
+type SceneParameter = 'expansion' | 'timeScale' | 'hue'
+
+export const neutralHandControls: HandControls = {
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+  rotationY: 0,
+  rotationZ: 0,
+  hasBothHands: false,
+}
+
+// The gesture -> camera controls mapping, free of React and the camera so the
+// tracker, recording replays and tests all run frames through the same code
+export function createHandControlsMapper(filterConfig?: FilterConfig) {
+  let filters = createControlFilters(filterConfig)
+  let lastFrameTime: number | null = null
+  let lastPan = { x: 0, y: 0 }
+  let lastZoom = 1
+  let lastRotation = { y: 0, z: 0 }
+  let baseWristPos: { x: number; y: number } | null = null
+  // Snapshot taken when the second hand appears, so two-hand gestures are relative
+  let twoHandStart: { spread: number; roll: number; yaw: number; zoom: number; rotY: number; rotZ: number } | null = null
+  let controls: HandControls = neutralHandControls
+  // Scene parameters driven by bindings, smoothed like zoom
+  let parameters: Partial<Record<SceneParameter, number>> = {}
+  let parameterFilters = new Map<SceneParameter, ReturnType<typeof createChannelFilter>>()
+  const filterParameter = (target: SceneParameter, value: number, now: number) => {
+    let filter = parameterFilters.get(target)
+    if (!filter) {
+      filter = createChannelFilter(filters.config.zoom)
+      parameterFilters.set(target, filter)
+    }
+    return filter.filter(value, now)
+  }
+  let debug: MapperDebug = { tension: null, isFistClosed: false, baseWrist: null, smoothedHands: [] }
+
+  // Time-based return to center; the pan filters restart from the eased value
+  // so closing the fist again continues smoothly instead of jumping
+  const easePanToCenter = (dt: number, halfLifeMs: number) => {
+    lastPan = {
+      x: decayTowardZero(lastPan.x, dt, halfLifeMs),
+      y: decayTowardZero(lastPan.y, dt, halfLifeMs),
+    }
+    filters.panX.reset(lastPan.x)
+    filters.panY.reset(lastPan.y)
+  }
+
+  // Single-hand frames go through `bindings`; two-hand gestures keep their fixed meaning
+  const map = (
+    frame: HandFrame,
+    profile: CalibrationProfile,
+    bindings: GestureBinding[] = defaultBindingProfile.bindings,
+  ): HandControls => {
+    const now = frame.timestamp
+    const { config } = filters
+    const dt = lastFrameTime === null ? 0 : now - lastFrameTime
+    lastFrameTime = now
+    const smoothed = frame.landmarks.map((hand, i) => filters.smoothHand(frame.handedness[i] ?? String(i), hand, now))
+    debug = { tension: null, isFistClosed: false, baseWrist: null, smoothedHands: smoothed }
+
+    if (smoothed.length >= 2) {
+      // Order by screen x so "left" is stable regardless of detection order
+      const [left, right] = [smoothed[0], smoothed[1]].sort((a, b) => a[0].x - b[0].x)
+      const pose = computeTwoHandPose(left, right)
+      baseWristPos = null
+
+      if (pose.palmsTogether) {
+        // Palms together = reset camera, bypassing the filters so it snaps
+        lastZoom = 1
+        lastPan = { x: 0, y: 0 }
+        lastRotation = { y: 0, z: 0 }
+        filters.zoom.reset(1)
+        filters.panX.reset(0)
+        filters.panY.reset(0)
+        filters.rotationY.reset(0)
+        filters.rotationZ.reset(0)
+        twoHandStart = null
+      } else {
+        if (twoHandStart === null) {
+          twoHandStart = {
+            spread: Math.max(pose.spread, 0.01),
+            roll: pose.roll,
+            yaw: pose.yaw,
+            zoom: lastZoom,
+            rotY: lastRotation.y,
+            rotZ: lastRotation.z,
+          }
+        }
+        const start = twoHandStart
+
+        // Pinch-zoom: hands apart = zoom in, together = zoom out
+        const targetZoom = clampZoom(start.zoom * (pose.spread / start.spread))
+        lastZoom = filters.zoom.filter(targetZoom, now)
+
+        lastRotation = {
+          y: filters.rotationY.filter(start.rotY + (pose.yaw - start.yaw) * 2.0, now),
+          z: filters.rotationZ.filter(start.rotZ + (pose.roll - start.roll), now),
+        }
+
+        // No panning with two hands, ease back to center
+        easePanToCenter(dt, config.panReturnHalfLifeMs)
+      }
+
+      controls = {
+        zoom: clampZoom(lastZoom),
+        panX: lastPan.x,
+        panY: lastPan.y,
+        rotationY: lastRotation.y,
+        rotationZ: lastRotation.z,
+        hasBothHands: true,
+        timestamp: now,
+        ...parameters,
+      }
+    } else if (smoothed.length === 1) {
+      twoHandStart = null
+      const hand = smoothed[0]
+      const wrist = hand[0]
+      const tension = computeTension(hand, profile.openness)
+      const isFistClosed = tension > profile.fistThreshold // Undebounced so panning starts immediately
+
+      // Initialize base position on first detection
+      if (baseWristPos === null) {
+        baseWristPos = { x: wrist.x, y: wrist.y }
+      }
+
+      // Fist-gated wrist bindings use the drag since the fist closed, in calibrated reach.
+      // Invert Y because camera Y is inverted (up in hand = down in camera)
+      const drag = {
+        x: (wrist.x - baseWristPos.x) / profile.panReach.x,
+        y: -(wrist.y - baseWristPos.y) / profile.panReach.y,
+      }
+      const channels = readChannels(hand, tension)
+      // Parameters whose binding was removed go back to the scene's own mapping
+      parameters = Object.fromEntries(
+        Object.entries(parameters).filter(([target]) => bindings.some((b) => b.target === target)),
+      )
+      let panned = false
+
+      bindings.forEach((binding) => {
+        if (binding.whileFist && !isFistClosed) return
+        const input =
+          binding.whileFist && binding.channel === 'wristX'
+            ? drag.x
+            : binding.whileFist && binding.channel === 'wristY'
+              ? drag.y
+              : channels[binding.channel]
+        const value = applyBinding(binding, input)
+        switch (binding.target) {
+          case 'zoom':
+            lastZoom = filters.zoom.filter(value, now)
+            break
+          case 'panX':
+            lastPan = { ...lastPan, x: clampPan(filters.panX.filter(value, now)) }
+            panned = true
+            break
+          case 'panY':
+            lastPan = { ...lastPan, y: clampPan(filters.panY.filter(value, now)) }
+            panned = true
+            break
+          case 'rotationY':
+            lastRotation = { ...lastRotation, y: filters.rotationY.filter(value, now) }
+            break
+          case 'rotationZ':
+            lastRotation = { ...lastRotation, z: filters.rotationZ.filter(value, now) }
+            break
+          default:
+            parameters = { ...parameters, [binding.target]: filterParameter(binding.target, value, now) }
+        }
+      })
+
+      // When hand opens, update base position but don't reset pan immediately
+      // This allows smooth transition
+      if (!isFistClosed) baseWristPos = { x: wrist.x, y: wrist.y }
+      if (!panned) easePanToCenter(dt, config.panReturnHalfLifeMs)
+
+      controls = {
+        zoom: clampZoom(lastZoom),
+        panX: lastPan.x,
+        panY: lastPan.y,
+        rotationY: lastRotation.y,
+        rotationZ: lastRotation.z,
+        hasBothHands: false,
+        timestamp: now,
+        ...parameters,
+      }
+      debug = { ...debug, tension, isFistClosed, baseWrist: baseWristPos }
+    } else {
+      // No hand detected - reset base position and smoothly return to center
+      baseWristPos = null
+      twoHandStart = null
+      filters.resetHands()
+      easePanToCenter(dt, config.lostHandHalfLifeMs)
+      controls = {
+        ...controls,
+        panX: lastPan.x,
+        panY: lastPan.y,
+        hasBothHands: false,
+        timestamp: now,
+      }
+    }
+
+    return controls
+  }
+
+  // Forget all motion history (seeking a replay, changing filter settings)
+  const reset = (config: FilterConfig | undefined = filterConfig) => {
+    filterConfig = config
+    filters = createControlFilters(config)
+    lastFrameTime = null
+    lastPan = { x: 0, y: 0 }
+    lastZoom = 1
+    lastRotation = { y: 0, z: 0 }
+    baseWristPos = null
+    twoHandStart = null
+    controls = neutralHandControls
+    parameters = {}
+    parameterFilters = new Map()
+    debug = { tension: null, isFistClosed: false, baseWrist: null, smoothedHands: [] }
+  }
+
+  return { map, reset, getDebug: () => debug }
+}
+
+export type HandControlsMapper = ReturnType<typeof createHandControlsMapper>
@@ -0,0 +1,69 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+// MediaPipe hand landmark indices
+export const WRIST = 0
+export const THUMB_TIP = 4
+export const INDEX_MCP = 5
+export const INDEX_TIP = 8
+export const MIDDLE_MCP = 9
+
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky'
+
+// [mcp, pip, tip] per finger (thumb uses its own chain)
+const FINGER_JOINTS: Record<Finger, [number, number, number]> = {
+  thumb: [2, 3, 4],
+  index: [5, 6, 8],
+  middle: [9, 10, 12],
+  ring: [13, 14, 16],
+  pinky: [17, 18, 20],
+}
+
+export function distance3d(a: NormalizedLandmark, b: NormalizedLandmark) {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  const dz = (a.z || 0) - (b.z || 0)
+  return Math.sqrt(dx * dx + dy * dy + dz * dz)
+}
+
+export function clamp01(value: number) {
+  return Math.min(Math.max(value, 0), 1)
+}
+
+// Average wrist-to-knuckle distance, used as the hand's scale reference
+export function palmSize(landmarks: NormalizedLandmark[]) {
+  const wrist = landmarks[WRIST]
+  return [5, 9, 13, 17].reduce((acc, i) => acc + distance3d(landmarks[i], wrist), 0) / 4
+}
+
+// Fingertip reach relative to palm size: ~0 for a tight fist, ~1.6 for an open hand
+export function opennessRatio(landmarks: NormalizedLandmark[]) {
+  const wrist = landmarks[WRIST]
+  const fingerTips = [4, 8, 12, 16, 20].map((i) => landmarks[i])
+
+  const avgTip = fingerTips.reduce((acc, tip) => acc + distance3d(tip, wrist), 0) / fingerTips.length
+  return avgTip / palmSize(landmarks)
+}
+
+export interface OpennessRange {
+  open: number // openness ratio of a fully open hand
+  fist: number // openness ratio of a closed fist
+}
+
+export const DEFAULT_OPENNESS: OpennessRange = { open: 1.6, fist: 0 }
+
+// 0 = open hand, 1 = closed fist, scaled to the (optionally calibrated) openness range
+export function computeTension(landmarks: NormalizedLandmark[], range: OpennessRange = DEFAULT_OPENNESS) {
+  const span = Math.max(range.open - range.fist, 1e-3)
+  const openRatio = (opennessRatio(landmarks) - range.fist) / span
+  const tension = 1 - clamp01(openRatio)
+  return clamp01(tension)
+}
+
+// 0 = curled, 1 = fully extended. A finger is extended when its tip is well
+// beyond its middle joint as seen from the wrist (thumb: from the index knuckle).
+export function fingerExtension(landmarks: NormalizedLandmark[], finger: Finger) {
+  const [, pip, tip] = FINGER_JOINTS[finger]
+  const origin = finger === 'thumb' ? landmarks[INDEX_MCP] : landmarks[WRIST]
+  const ratio = distance3d(landmarks[tip], origin) / Math.max(distance3d(landmarks[pip], origin), 1e-6)
+  return clamp01((ratio - 1.0) / 0.35)
+}
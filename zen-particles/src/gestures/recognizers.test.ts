@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { parseRecording, toHandFrame } from '../recording/recording'
+import fistPan from '../test/fixtures/fist-pan.json'
+import fist from '../test/fixtures/fist.json'
+import openPalm from '../test/fixtures/open-palm.json'
+import pinch from '../test/fixtures/pinch.json'
+import point from '../test/fixtures/point.json'
+import swipeRight from '../test/fixtures/swipe-right.json'
+import { mirrorFrame, type HandFrame } from './handControlsMapper'
+import { builtInRecognizers, createFistGesture, createSwipeGestures, type GestureRecognizer } from './recognizers'
+import { createGestureRegistry } from './registry'
+
+// The fixtures are synthetic (scripts/generate-hand-fixtures.mjs): idealized poses
+// with slight jitter, so these check the recognizers' rules rather than how they
+// cope with real MediaPipe noise.
+
+// Names of the gestures that fired while the fixture played, in order
+function gesturesIn(
+  fixture: unknown,
+  transform: (frame: HandFrame) => HandFrame = (frame) => frame,
+  recognizers: GestureRecognizer[] = builtInRecognizers,
+) {
+  const registry = createGestureRegistry(recognizers)
+  const entered: string[] = []
+  registry.subscribe('*', (event) => {
+    if (event.type === 'enter') entered.push(event.name)
+  })
+  parseRecording(JSON.stringify(fixture)).frames.forEach((recorded) => {
+    const frame = transform(toHandFrame(recorded, recorded.t))
+    registry.process(frame.landmarks[0] ?? null, frame.timestamp)
+  })
+  return entered
+}
+
+describe('built-in recognizers', () => {
+  it.each([
+    ['open palm', openPalm, 'openPalm'],
+    ['fist', fist, 'fist'],
+    ['pinch', pinch, 'pinch'],
+    ['point', point, 'point'],
+  ])('recognize a held %s and nothing else', (_name, fixture, gesture) => {
+    expect(gesturesIn(fixture)).toEqual([gesture])
+  })
+
+  it('recognize a fast open-hand sweep as a swipe in its direction', () => {
+    expect(gesturesIn(swipeRight)).toEqual(['openPalm', 'swipeRight'])
+  })
+
+  it('flip the swipe direction with the mirrored frame', () => {
+    expect(gesturesIn(swipeRight, mirrorFrame)).toEqual(['openPalm', 'swipeLeft'])
+  })
+
+  it('treat a fast closed-fist drag as a pan, not a swipe', () => {
+    const entered = gesturesIn(fistPan)
+    expect(entered).toContain('fist')
+    expect(entered.filter((name) => name.startsWith('swipe'))).toEqual([])
+  })
+
+  it('tell pans from swipes with the fist recognizer they are given', () => {
+    // A calibration under which the dragging hand is no fist lets the drag through
+    const openHanded = createSwipeGestures(() => 0)
+    expect(gesturesIn(fistPan, undefined, openHanded)).not.toEqual([])
+    const fistAlways = createSwipeGestures(() => 1)
+    expect(gesturesIn(swipeRight, undefined, fistAlways)).toEqual([])
+  })
+})
+
+describe('gesture registry', () => {
+  it('ends an active gesture when its recognizer is replaced', () => {
+    const registry = createGestureRegistry(builtInRecognizers)
+    const events: string[] = []
+    registry.subscribe('fist', (event) => events.push(event.type))
+    parseRecording(JSON.stringify(fist)).frames.forEach((recorded) => {
+      const frame = toHandFrame(recorded, recorded.t)
+      registry.process(frame.landmarks[0], frame.timestamp)
+    })
+
+    registry.register(createFistGesture(0.8))
+    expect(events).toEqual(['enter', 'exit'])
+    expect(registry.isActive('fist')).toBe(false)
+  })
+})
@@ -0,0 +1,121 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import {
+  DEFAULT_OPENNESS,
+  INDEX_MCP,
+  INDEX_TIP,
+  THUMB_TIP,
+  WRIST,
+  clamp01,
+  computeTension,
+  distance3d,
+  fingerExtension,
+  palmSize,
+  type Finger,
+  type OpennessRange,
+} from './landmarks'
+
+export interface GestureSample {
+  landmarks: NormalizedLandmark[]
+  timestamp: number // ms
+}
+
+// Pure confidence function (0..1). `history` holds recent samples, oldest first,
+// not including the current one, for motion gestures like swipes.
+export type RecognizerFn = (landmarks: NormalizedLandmark[], history: GestureSample[]) => number
+
+export interface GestureRecognizer {
+  name: string
+  recognize: RecognizerFn
+  enterThreshold?: number // confidence needed to start (default 0.6)
+  exitThreshold?: number // confidence below which it ends (default 0.4)
+  holdMs?: number // how long it must stay above enter before firing (default 80)
+  releaseMs?: number // how long it must stay below exit before ending (default 120)
+}
+
+const curled = (landmarks: NormalizedLandmark[], ...fingers: Finger[]) =>
+  Math.min(...fingers.map((f) => 1 - fingerExtension(landmarks, f)))
+
+const extended = (landmarks: NormalizedLandmark[], ...fingers: Finger[]) =>
+  Math.min(...fingers.map((f) => fingerExtension(landmarks, f)))
+
+export const recognizeOpenPalm: RecognizerFn = (landmarks) =>
+  extended(landmarks, 'thumb', 'index', 'middle', 'ring', 'pinky')
+
+// Confidence crosses 0.5 exactly at `threshold` tension (default: the original 0.7)
+export function createFistRecognizer(threshold = 0.7, range: OpennessRange = DEFAULT_OPENNESS): RecognizerFn {
+  return (landmarks) => clamp01((computeTension(landmarks, range) - threshold) / 0.3 + 0.5)
+}
+
+export const recognizeFist = createFistRecognizer()
+
+// The fist gesture for a calibrated threshold and openness range
+export const createFistGesture = (threshold?: number, range?: OpennessRange): GestureRecognizer => ({
+  name: 'fist',
+  recognize: createFistRecognizer(threshold, range),
+  holdMs: 0,
+  releaseMs: 60,
+})
+
+export const recognizePinch: RecognizerFn = (landmarks) => {
+  const gap = distance3d(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palmSize(landmarks)
+  return clamp01(1 - (gap - 0.2) / 0.3)
+}
+
+export const recognizePoint: RecognizerFn = (landmarks) =>
+  Math.min(extended(landmarks, 'index'), curled(landmarks, 'middle', 'ring', 'pinky'))
+
+export const recognizeVictory: RecognizerFn = (landmarks) =>
+  Math.min(extended(landmarks, 'index', 'middle'), curled(landmarks, 'ring', 'pinky'))
+
+export const recognizeThumbsUp: RecognizerFn = (landmarks) => {
+  // Thumb tip must sit clearly above the index knuckle (image y grows downward)
+  const lift = (landmarks[INDEX_MCP].y - landmarks[THUMB_TIP].y) / palmSize(landmarks)
+  return Math.min(extended(landmarks, 'thumb'), curled(landmarks, 'index', 'middle', 'ring', 'pinky'), clamp01(lift / 0.6))
+}
+
+const SWIPE_WINDOW_MS = 300
+
+// Horizontal wrist travel over the last SWIPE_WINDOW_MS, in palm widths.
+// Direction is in tracked frame coordinates (mirrored like the preview when the
+// camera mirror is on): positive = towards x = 1. A fist (as `fist` judges it)
+// anywhere in the window makes it a pan (or a scrub) rather than a swipe, so it
+// never counts.
+function swipeTravel(landmarks: NormalizedLandmark[], history: GestureSample[], fist: RecognizerFn) {
+  if (history.length === 0) return 0
+  const latest = history[history.length - 1].timestamp
+  const recent = history.filter((s) => latest - s.timestamp <= SWIPE_WINDOW_MS)
+  const start = recent[0]
+  if (!start) return 0
+  if ([landmarks, ...recent.map((s) => s.landmarks)].some((hand) => fist(hand, []) >= 0.5)) return 0
+  const dx = landmarks[WRIST].x - start.landmarks[WRIST].x
+  const dy = landmarks[WRIST].y - start.landmarks[WRIST].y
+  // Ignore mostly-vertical motion
+  if (Math.abs(dy) > Math.abs(dx)) return 0
+  return dx / palmSize(landmarks)
+}
+
+// `fist` should be the recognizer the fist gesture uses, so a calibrated fist pan
+// is never taken for a swipe
+export function createSwipeRecognizer(direction: 'left' | 'right', fist: RecognizerFn = recognizeFist): RecognizerFn {
+  const sign = direction === 'left' ? -1 : 1
+  return (landmarks, history) => clamp01((sign * swipeTravel(landmarks, history, fist) - 1.0) / 1.0)
+}
+
+export const recognizeSwipeLeft = createSwipeRecognizer('left')
+export const recognizeSwipeRight = createSwipeRecognizer('right')
+
+// The swipe gestures, guarded by the same fist recognizer as the fist gesture
+export const createSwipeGestures = (fist: RecognizerFn = recognizeFist): GestureRecognizer[] => [
+  { name: 'swipeLeft', recognize: createSwipeRecognizer('left', fist), holdMs: 0, releaseMs: 400 },
+  { name: 'swipeRight', recognize: createSwipeRecognizer('right', fist), holdMs: 0, releaseMs: 400 },
+]
+
+export const builtInRecognizers: GestureRecognizer[] = [
+  { name: 'openPalm', recognize: recognizeOpenPalm },
+  createFistGesture(),
+  { name: 'pinch', recognize: recognizePinch },
+  { name: 'point', recognize: recognizePoint, holdMs: 150 },
+  { name: 'thumbsUp', recognize: recognizeThumbsUp, holdMs: 250 },
+  { name: 'victory', recognize: recognizeVictory, holdMs: 250 },
+  ...createSwipeGestures(),
+]
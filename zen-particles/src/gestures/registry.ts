@@ -0,0 +1,121 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { builtInRecognizers, type GestureRecognizer, type GestureSample } from './recognizers'
+
+export interface GestureEvent {
+  name: string
+  type: 'enter' | 'exit'
+  confidence: number
+  timestamp: number
+  landmarks?: NormalizedLandmark[] // the hand that triggered it, for position-dependent actions
+}
+
+export interface GestureState {
+  active: boolean
+  confidence: number
+}
+
+type GestureListener = (event: GestureEvent) => void
+
+type Tracked = {
+  recognizer: GestureRecognizer
+  active: boolean
+  confidence: number
+  pendingSince: number | null // when the confidence first crossed the relevant threshold
+}
+
+const HISTORY_MS = 1000
+
+// Feeds landmark frames through every registered recognizer and turns raw
+// confidences into debounced enter/exit events (hysteresis + hold times).
+export function createGestureRegistry(recognizers: GestureRecognizer[] = []) {
+  const tracked = new Map<string, Tracked>()
+  const listeners = new Map<string, Set<GestureListener>>()
+  let history: GestureSample[] = []
+
+  const emit = (event: GestureEvent) => {
+    listeners.get(event.name)?.forEach((fn) => fn(event))
+    listeners.get('*')?.forEach((fn) => fn(event))
+  }
+
+  // Replacing a recognizer while its gesture is active ends the gesture first
+  const register = (recognizer: GestureRecognizer) => {
+    const replaced = tracked.get(recognizer.name)
+    if (replaced?.active) emit({ name: recognizer.name, type: 'exit', confidence: 0, timestamp: performance.now() })
+    tracked.set(recognizer.name, { recognizer, active: false, confidence: 0, pendingSince: null })
+    return () => {
+      tracked.delete(recognizer.name)
+    }
+  }
+
+  // Listen to one gesture by name, or '*' for every gesture
+  const subscribe = (name: string, listener: GestureListener) => {
+    if (!listeners.has(name)) listeners.set(name, new Set())
+    listeners.get(name)!.add(listener)
+    return () => {
+      listeners.get(name)?.delete(listener)
+    }
+  }
+
+  // Pass null when no (single) hand is visible so active gestures can end
+  const process = (landmarks: NormalizedLandmark[] | null, timestamp: number) => {
+    tracked.forEach((t) => {
+      const confidence = landmarks ? t.recognizer.recognize(landmarks, history) : 0
+      t.confidence = confidence
+
+      const enter = t.recognizer.enterThreshold ?? 0.6
+      const exit = t.recognizer.exitThreshold ?? 0.4
+      const crossing = t.active ? confidence < exit : confidence >= enter
+      if (!crossing) {
+        t.pendingSince = null
+        return
+      }
+      if (t.pendingSince === null) t.pendingSince = timestamp
+
+      const wait = t.active ? (t.recognizer.releaseMs ?? 120) : (t.recognizer.holdMs ?? 80)
+      if (timestamp - t.pendingSince >= wait) {
+        t.active = !t.active
+        t.pendingSince = null
+        emit({
+          name: t.recognizer.name,
+          type: t.active ? 'enter' : 'exit',
+          confidence,
+          timestamp,
+          landmarks: landmarks ?? undefined,
+        })
+      }
+    })
+
+    if (landmarks) {
+      history.push({ landmarks, timestamp })
+      history = history.filter((s) => timestamp - s.timestamp <= HISTORY_MS)
+    } else {
+      history = []
+    }
+  }
+
+  const getState = (name: string): GestureState => {
+    const t = tracked.get(name)
+    return { active: t?.active ?? false, confidence: t?.confidence ?? 0 }
+  }
+
+  const isActive = (name: string) => tracked.get(name)?.active ?? false
+
+  const reset = () => {
+    history = []
+    tracked.forEach((t) => {
+      if (t.active) emit({ name: t.recognizer.name, type: 'exit', confidence: 0, timestamp: performance.now() })
+      t.active = false
+      t.confidence = 0
+      t.pendingSince = null
+    })
+  }
+
+  recognizers.forEach(register)
+
+  return { register, subscribe, process, getState, isActive, reset }
+}
+
+export type GestureRegistry = ReturnType<typeof createGestureRegistry>
+
+// Shared registry fed by HandTracker; components subscribe without touching the tracker
+export const gestureRegistry = createGestureRegistry(builtInRecognizers)
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react'
+import { gestureRegistry, type GestureEvent } from './registry'
+
+// Subscribe a component to gesture events; `type` limits it to enter or exit only
+export function useGesture(
+  name: string,
+  handler: (event: GestureEvent) => void,
+  type: GestureEvent['type'] | 'both' = 'enter',
+) {
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  }, [handler])
+
+  useEffect(
+    () =>
+      gestureRegistry.subscribe(name, (event) => {
+        if (type === 'both' || event.type === type) handlerRef.current(event)
+      }),
+    [name, type],
+  )
+}
@@ -0,0 +1,43 @@
+import type { HandControls } from '../types'
+
+// The control ranges SceneRenderer is tuned for; every input source clamps to these
+export const CONTROL_LIMITS = {
+  zoom: { min: 0.5, max: 2.5 },
+  pan: { min: -1, max: 1 },
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+// 0 at minimum zoom, 1 at maximum (used for the zoom bar and dots expansion)
+export function zoomProgress(zoom: number) {
+  const { min, max } = CONTROL_LIMITS.zoom
+  return clamp((zoom - min) / (max - min), 0, 1)
+}
+
+export function clampZoom(zoom: number) {
+  return clamp(zoom, CONTROL_LIMITS.zoom.min, CONTROL_LIMITS.zoom.max)
+}
+
+export function clampPan(pan: number) {
+  return clamp(pan, CONTROL_LIMITS.pan.min, CONTROL_LIMITS.pan.max)
+}
+
+// Relative change produced by a manual input event
+export interface ControlDelta {
+  zoomFactor?: number // multiplies zoom (wheel, pinch, +/-)
+  panX?: number // added to panX
+  panY?: number // added to panY
+  reset?: boolean // back to the neutral view first
+}
+
+export function applyControlDelta(controls: HandControls, delta: ControlDelta, neutral: HandControls): HandControls {
+  const base = delta.reset ? neutral : controls
+  return {
+    ...base,
+    zoom: clampZoom(base.zoom * (delta.zoomFactor ?? 1)),
+    panX: clampPan(base.panX + (delta.panX ?? 0)),
+    panY: clampPan(base.panY + (delta.panY ?? 0)),
+    hasBothHands: false,
+    timestamp: performance.now(),
+  }
+}
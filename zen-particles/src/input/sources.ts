@@ -0,0 +1,206 @@
+import type { ControlDelta } from './limits'
+
+export type ManualSourceId = 'mouse' | 'touch' | 'keyboard' | 'gamepad'
+export type InputSourceId = 'hand' | ManualSourceId
+
+export interface ManualInputSource {
+  id: ManualSourceId
+  label: string
+  isAvailable: () => boolean
+  // Starts listening on `target`; returns a function that stops it
+  attach: (target: HTMLElement, apply: (delta: ControlDelta) => void) => () => void
+}
+
+// Continuous-input helper: calls `tick` every animation frame with seconds elapsed
+function frameLoop(tick: (dt: number) => void) {
+  let raf = 0
+  let last = performance.now()
+  const loop = (now: number) => {
+    tick(Math.min((now - last) / 1000, 0.1))
+    last = now
+    raf = requestAnimationFrame(loop)
+  }
+  raf = requestAnimationFrame(loop)
+  return () => cancelAnimationFrame(raf)
+}
+
+const isTyping = (event: KeyboardEvent) =>
+  event.target instanceof HTMLElement && (event.target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(event.target.tagName))
+
+// Wheel = zoom, drag = pan (full pan range per screen width/height)
+const mouseSource: ManualInputSource = {
+  id: 'mouse',
+  label: 'Mouse',
+  isAvailable: () => window.matchMedia('(pointer: fine)').matches,
+  attach: (target, apply) => {
+    let dragging: { x: number; y: number } | null = null
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      apply({ zoomFactor: Math.exp(-e.deltaY * 0.0015) })
+    }
+    const onDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse' || e.button !== 0) return
+      dragging = { x: e.clientX, y: e.clientY }
+    }
+    const onMove = (e: PointerEvent) => {
+      if (!dragging || e.pointerType !== 'mouse') return
+      apply({
+        panX: -((e.clientX - dragging.x) / window.innerWidth) * 2,
+        panY: ((e.clientY - dragging.y) / window.innerHeight) * 2,
+      })
+      dragging = { x: e.clientX, y: e.clientY }
+    }
+    const onUp = () => {
+      dragging = null
+    }
+    const onDoubleClick = () => apply({ reset: true })
+
+    target.addEventListener('wheel', onWheel, { passive: false })
+    target.addEventListener('pointerdown', onDown)
+    target.addEventListener('dblclick', onDoubleClick)
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+    return () => {
+      target.removeEventListener('wheel', onWheel)
+      target.removeEventListener('pointerdown', onDown)
+      target.removeEventListener('dblclick', onDoubleClick)
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+    }
+  },
+}
+
+// Pinch = zoom, two-finger drag = pan
+const touchSource: ManualInputSource = {
+  id: 'touch',
+  label: 'Touch',
+  isAvailable: () => navigator.maxTouchPoints > 0,
+  attach: (target, apply) => {
+    let last: { distance: number; x: number; y: number } | null = null
+
+    const measure = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]]
+      return {
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+        x: (a.clientX + b.clientX) / 2,
+        y: (a.clientY + b.clientY) / 2,
+      }
+    }
+    const onStart = (e: TouchEvent) => {
+      last = e.touches.length === 2 ? measure(e.touches) : null
+    }
+    const onMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || !last) return
+      e.preventDefault()
+      const next = measure(e.touches)
+      apply({
+        zoomFactor: last.distance > 0 ? next.distance / last.distance : 1,
+        panX: -((next.x - last.x) / window.innerWidth) * 2,
+        panY: ((next.y - last.y) / window.innerHeight) * 2,
+      })
+      last = next
+    }
+    const onEnd = (e: TouchEvent) => {
+      last = e.touches.length === 2 ? measure(e.touches) : null
+    }
+
+    target.addEventListener('touchstart', onStart, { passive: true })
+    target.addEventListener('touchmove', onMove, { passive: false })
+    target.addEventListener('touchend', onEnd)
+    target.addEventListener('touchcancel', onEnd)
+    return () => {
+      target.removeEventListener('touchstart', onStart)
+      target.removeEventListener('touchmove', onMove)
+      target.removeEventListener('touchend', onEnd)
+      target.removeEventListener('touchcancel', onEnd)
+    }
+  },
+}
+
+const KEY_PAN_PER_SECOND = 1.2
+const KEY_ZOOM_PER_SECOND = 1.8 // zoom multiplies by this each second a key is held
+
+// Arrows = pan, +/- = zoom, 0 = reset. Keys act while held, independent of key repeat.
+const keyboardSource: ManualInputSource = {
+  id: 'keyboard',
+  label: 'Keyboard',
+  isAvailable: () => true,
+  attach: (_target, apply) => {
+    const held = new Set<string>()
+
+    const onDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return
+      if (e.key === '0') {
+        apply({ reset: true })
+        return
+      }
+      if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', '+', '=', '-', '_'].includes(e.key)) {
+        e.preventDefault()
+        held.add(e.key)
+      }
+    }
+    const onUp = (e: KeyboardEvent) => held.delete(e.key)
+    const onBlur = () => held.clear()
+
+    const stopLoop = frameLoop((dt) => {
+      if (held.size === 0) return
+      const axis = (neg: string[], pos: string[]) =>
+        (pos.some((k) => held.has(k)) ? 1 : 0) - (neg.some((k) => held.has(k)) ? 1 : 0)
+      const zoom = axis(['-', '_'], ['+', '='])
+      apply({
+        panX: axis(['ArrowLeft'], ['ArrowRight']) * KEY_PAN_PER_SECOND * dt,
+        panY: axis(['ArrowDown'], ['ArrowUp']) * KEY_PAN_PER_SECOND * dt,
+        zoomFactor: Math.pow(KEY_ZOOM_PER_SECOND, zoom * dt),
+      })
+    })
+
+    window.addEventListener('keydown', onDown)
+    window.addEventListener('keyup', onUp)
+    window.addEventListener('blur', onBlur)
+    return () => {
+      stopLoop()
+      window.removeEventListener('keydown', onDown)
+      window.removeEventListener('keyup', onUp)
+      window.removeEventListener('blur', onBlur)
+    }
+  },
+}
+
+const STICK_DEAD_ZONE = 0.15
+
+const connectedGamepads = () => (navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null)
+
+// Left stick = pan, right stick vertical = zoom, A/cross button = reset
+const gamepadSource: ManualInputSource = {
+  id: 'gamepad',
+  label: 'Gamepad',
+  isAvailable: () => connectedGamepads().length > 0,
+  attach: (_target, apply) => {
+    let resetHeld = false
+    const stick = (value: number) =>
+      Math.abs(value) < STICK_DEAD_ZONE ? 0 : (value - Math.sign(value) * STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE)
+
+    return frameLoop((dt) => {
+      const pad = connectedGamepads()[0]
+      if (!pad) return
+      const [lx = 0, ly = 0, , ry = 0] = pad.axes
+      const reset = pad.buttons[0]?.pressed ?? false
+      if (reset && !resetHeld) apply({ reset: true })
+      resetHeld = reset
+
+      const panX = stick(lx)
+      const panY = -stick(ly)
+      const zoom = -stick(ry)
+      if (panX === 0 && panY === 0 && zoom === 0) return
+      apply({
+        panX: panX * KEY_PAN_PER_SECOND * dt,
+        panY: panY * KEY_PAN_PER_SECOND * dt,
+        zoomFactor: Math.pow(KEY_ZOOM_PER_SECOND, zoom * dt),
+      })
+    })
+  },
+}
+
+// In preference order for automatic selection
+export const manualSources: ManualInputSource[] = [gamepadSource, touchSource, mouseSource, keyboardSource]
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import type { HandControls } from '../types'
+import { applyControlDelta } from './limits'
+import { manualSources, type InputSourceId, type ManualSourceId } from './sources'
+
+export type InputSelection = 'auto' | InputSourceId
+
+// In auto mode a manual source keeps control this long after its last input
+const MANUAL_HOLD_MS = 3000
+
+function availableSources(handAvailable: boolean): InputSourceId[] {
+  const manual = manualSources.filter((s) => s.isAvailable()).map((s) => s.id)
+  return handAvailable ? ['hand', ...manual] : manual
+}
+
+// Merges hand tracking with mouse/touch/keyboard/gamepad input into one controls stream.
+// Manual sources share one state, so switching between them never jumps the camera.
+export function useInputControls(
+  targetRef: RefObject<HTMLElement | null>,
+  handControls: HandControls,
+  handAvailable: boolean,
+  selection: InputSelection,
+  neutral: HandControls,
+) {
+  const [manual, setManual] = useState<HandControls>(neutral)
+  // A new neutral view (a loaded preset) moves the manual controls there
+  const [appliedNeutral, setAppliedNeutral] = useState(neutral)
+  if (appliedNeutral !== neutral) {
+    setAppliedNeutral(neutral)
+    setManual(neutral)
+  }
+  const [lastManual, setLastManual] = useState<{ id: ManualSourceId; at: number } | null>(null)
+  const [available, setAvailable] = useState<InputSourceId[]>(() => availableSources(handAvailable))
+  const [now, setNow] = useState(() => performance.now())
+  // What is on screen right now, so manual input picks up where hand tracking left off
+  const shownRef = useRef<{ controls: HandControls; active: InputSourceId }>({ controls: neutral, active: 'hand' })
+
+  // Gamepads come and go; re-check availability when they do
+  useEffect(() => {
+    const refresh = () => setAvailable(availableSources(handAvailable))
+    refresh()
+    window.addEventListener('gamepadconnected', refresh)
+    window.addEventListener('gamepaddisconnected', refresh)
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh)
+      window.removeEventListener('gamepaddisconnected', refresh)
+    }
+  }, [handAvailable])
+
+  useEffect(() => {
+    const target = targetRef.current
+    if (!target) return
+    const listening = manualSources.filter((s) => (selection === 'auto' ? available.includes(s.id) : selection === s.id))
+    const stops = listening.map((source) =>
+      source.attach(target, (delta) => {
+        const shown = shownRef.current
+        setManual((prev) => applyControlDelta(shown.active === 'hand' ? shown.controls : prev, delta, neutral))
+        setLastManual({ id: source.id, at: performance.now() })
+      }),
+    )
+    return () => stops.forEach((stop) => stop())
+  }, [targetRef, selection, available, neutral])
+
+  // Re-evaluate auto selection once the manual hold expires
+  useEffect(() => {
+    if (!lastManual) return
+    const timeout = window.setTimeout(() => setNow(performance.now()), MANUAL_HOLD_MS)
+    return () => window.clearTimeout(timeout)
+  }, [lastManual])
+
+  let active: InputSourceId
+  if (selection !== 'auto') {
+    active = selection
+  } else if (lastManual && (now < lastManual.at + MANUAL_HOLD_MS || !available.includes('hand'))) {
+    active = lastManual.id
+  } else {
+    active = available[0] ?? 'keyboard'
+  }
+
+  const controls = active === 'hand' ? handControls : manual
+
+  useEffect(() => {
+    shownRef.current = { controls, active }
+  }, [controls, active])
+
+  return { controls, active, available }
+}
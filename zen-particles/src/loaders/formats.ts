@@ -0,0 +1,152 @@
+import * as THREE from 'three'
+import type { ModelSource } from '../types'
+
+export type ModelFormat = 'gltf' | 'glb' | 'obj' | 'stl' | 'ply' | 'fbx' | 'image'
+
+export type LoadedContent =
+  | { kind: 'object'; object: THREE.Object3D; animations: THREE.AnimationClip[] }
+  | { kind: 'image'; texture: THREE.Texture }
+
+// 0..1, or null while the total size is unknown
+export type LoadProgress = (progress: number | null) => void
+
+export interface FormatLoader {
+  format: ModelFormat
+  label: string
+  extensions: string[]
+  // Recognizes the format from the file's leading bytes; `size` is the full file length
+  sniff?: (head: Uint8Array, size: number) => boolean
+  load: (source: ModelSource, manager: THREE.LoadingManager, onProgress: LoadProgress) => Promise<LoadedContent>
+}
+
+// Draco decoder files are served from the app origin (see dracoDecoder in vite.config.ts)
+const dracoPath = `${import.meta.env.BASE_URL}draco/`
+
+const ascii = (head: Uint8Array, start = 0, length = head.length) =>
+  String.fromCharCode(...head.subarray(start, start + length))
+
+const startsWith = (head: Uint8Array, bytes: number[]) => bytes.every((b, i) => head[i] === b)
+
+const toProgress =
+  (onProgress: LoadProgress) =>
+  (event: ProgressEvent) =>
+    onProgress(event.lengthComputable && event.total ? event.loaded / event.total : null)
+
+// Plain geometry formats come without materials; use vertex colors when they have them
+function geometryMesh(geometry: THREE.BufferGeometry) {
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals()
+  const material = new THREE.MeshStandardMaterial({
+    color: geometry.getAttribute('color') ? 0xffffff : 0xc8d6e5,
+    vertexColors: Boolean(geometry.getAttribute('color')),
+    roughness: 0.6,
+    metalness: 0.1,
+  })
+  return new THREE.Mesh(geometry, material)
+}
+
+const gltfLoad: FormatLoader['load'] = async (source, manager, onProgress) => {
+  const [{ GLTFLoader }, { DRACOLoader }, { MeshoptDecoder }] = await Promise.all([
+    import('three/examples/jsm/loaders/GLTFLoader.js'),
+    import('three/examples/jsm/loaders/DRACOLoader.js'),
+    import('three/examples/jsm/libs/meshopt_decoder.module.js'),
+  ])
+  const draco = new DRACOLoader(manager).setDecoderPath(dracoPath)
+  const loader = new GLTFLoader(manager).setDRACOLoader(draco).setMeshoptDecoder(MeshoptDecoder)
+  try {
+    const gltf = await loader.loadAsync(source.url, toProgress(onProgress))
+    return { kind: 'object', object: gltf.scene, animations: gltf.animations }
+  } finally {
+    draco.dispose()
+  }
+}
+
+export const builtInLoaders: FormatLoader[] = [
+  {
+    format: 'glb',
+    label: 'glTF binary',
+    extensions: ['glb'],
+    sniff: (head) => ascii(head, 0, 4) === 'glTF',
+    load: gltfLoad,
+  },
+  {
+    format: 'gltf',
+    label: 'glTF',
+    extensions: ['gltf'],
+    // JSON glTF has no magic; the asset block is usually near the top
+    sniff: (head) => /^\s*\{/.test(ascii(head)) && ascii(head).includes('"asset"'),
+    load: gltfLoad,
+  },
+  {
+    format: 'fbx',
+    label: 'FBX',
+    extensions: ['fbx'],
+    sniff: (head) => ascii(head, 0, 18) === 'Kaydara FBX Binary' || ascii(head, 0, 5) === '; FBX',
+    load: async (source, manager, onProgress) => {
+      const { FBXLoader } = await import('three/examples/jsm/loaders/FBXLoader.js')
+      const object = await new FBXLoader(manager).loadAsync(source.url, toProgress(onProgress))
+      return { kind: 'object', object, animations: object.animations }
+    },
+  },
+  {
+    format: 'ply',
+    label: 'PLY',
+    extensions: ['ply'],
+    sniff: (head) => /^ply\r?\n/.test(ascii(head, 0, 5)),
+    load: async (source, manager, onProgress) => {
+      const { PLYLoader } = await import('three/examples/jsm/loaders/PLYLoader.js')
+      const geometry = await new PLYLoader(manager).loadAsync(source.url, toProgress(onProgress))
+      return { kind: 'object', object: geometryMesh(geometry), animations: [] }
+    },
+  },
+  {
+    format: 'stl',
+    label: 'STL',
+    extensions: ['stl'],
+    // Binary STL: 80-byte header, triangle count, 50 bytes per triangle
+    sniff: (head, size) =>
+      (head.length >= 84 && 84 + new DataView(head.buffer, head.byteOffset).getUint32(80, true) * 50 === size) ||
+      /^solid\s/.test(ascii(head, 0, 6)),
+    load: async (source, manager, onProgress) => {
+      const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js')
+      const geometry = await new STLLoader(manager).loadAsync(source.url, toProgress(onProgress))
+      return { kind: 'object', object: geometryMesh(geometry), animations: [] }
+    },
+  },
+  {
+    format: 'obj',
+    label: 'OBJ',
+    extensions: ['obj'],
+    // Text format without a signature; detected by extension only
+    load: async (source, manager, onProgress) => {
+      const [{ OBJLoader }, { MTLLoader }] = await Promise.all([
+        import('three/examples/jsm/loaders/OBJLoader.js'),
+        import('three/examples/jsm/loaders/MTLLoader.js'),
+      ])
+      const loader = new OBJLoader(manager)
+      // Materials come from an .mtl uploaded alongside the .obj
+      const mtlName = Object.keys(source.resources ?? {}).find((name) => name.toLowerCase().endsWith('.mtl'))
+      if (mtlName) {
+        const materials = await new MTLLoader(manager).loadAsync(source.resources![mtlName])
+        materials.preload()
+        loader.setMaterials(materials)
+      }
+      const object = await loader.loadAsync(source.url, toProgress(onProgress))
+      return { kind: 'object', object, animations: [] }
+    },
+  },
+  {
+    format: 'image',
+    label: 'Image',
+    extensions: ['png', 'jpg', 'jpeg', 'webp', 'gif'],
+    sniff: (head) =>
+      startsWith(head, [0x89, 0x50, 0x4e, 0x47]) || // PNG
+      startsWith(head, [0xff, 0xd8, 0xff]) || // JPEG
+      (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WEBP') ||
+      ascii(head, 0, 4) === 'GIF8',
+    load: async (source, manager, onProgress) => {
+      const texture = await new THREE.TextureLoader(manager).loadAsync(source.url, toProgress(onProgress))
+      texture.colorSpace = THREE.SRGBColorSpace
+      return { kind: 'image', texture }
+    },
+  },
+]
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createModelSource, modelSourceFromFiles, releaseModelSource } from './modelSource'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('releaseModelSource', () => {
+  it('revokes the blob URL of every uploaded file', () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL')
+    const files = ['scene.gltf', 'scene.bin', 'albedo.png', 'normal.png'].map((name) => new File(['x'], name))
+    const source = createModelSource(files)!
+    expect(source.name).toBe('scene.gltf')
+
+    releaseModelSource(source)
+    const created = Object.values(source.resources!)
+    expect(created).toHaveLength(files.length)
+    expect(new Set(revoke.mock.calls.map(([url]) => url))).toEqual(new Set(created))
+    expect(revoke).toHaveBeenCalledTimes(files.length)
+  })
+
+  it('revokes sources rebuilt from stored files', () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL')
+    const source = modelSourceFromFiles('photo.jpg', { 'photo.jpg': new Blob(['x']) })
+    releaseModelSource(source)
+    expect(revoke.mock.calls).toEqual([[source.url]])
+  })
+
+  it('leaves URLs it did not create alone', () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL')
+    releaseModelSource({ url: 'https://example.com/model.glb', name: 'model.glb' })
+    expect(revoke).not.toHaveBeenCalled()
+  })
+})
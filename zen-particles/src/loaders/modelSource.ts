@@ -0,0 +1,35 @@
+import type { ModelSource } from '../types'
+import { loaderRegistry } from './registry'
+
+// Builds a source from the files picked together in the upload input. Companion
+// files (.mtl, .bin, textures) become resources; the main file is the first model
+// the registry knows by extension, else the first image, else whatever came first.
+export function createModelSource(files: File[]): ModelSource | null {
+  if (!files.length) return null
+  const known = files.filter((f) => loaderRegistry.byExtension(f.name))
+  const main = known.find((f) => loaderRegistry.byExtension(f.name)?.format !== 'image') ?? known[0] ?? files[0]
+  const resources = Object.fromEntries(files.map((f) => [f.name, URL.createObjectURL(f)]))
+  return { url: resources[main.name], name: main.name, resources }
+}
+
+// Revokes the blob URLs created for a source once it is no longer shown
+export function releaseModelSource(source: ModelSource) {
+  const urls = new Set([source.url, ...Object.values(source.resources ?? {})])
+  urls.forEach((url) => {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url)
+  })
+}
+
+// Reads a source's files back as blobs, e.g. to store them; only works while its
+// blob URLs are still alive
+export async function readModelFiles(source: ModelSource): Promise<Record<string, Blob>> {
+  const entries = Object.entries(source.resources ?? { [source.name]: source.url })
+  const blobs = await Promise.all(entries.map(async ([name, url]) => [name, await (await fetch(url)).blob()] as const))
+  return Object.fromEntries(blobs)
+}
+
+// Inverse of readModelFiles; the result is released like any upload
+export function modelSourceFromFiles(name: string, files: Record<string, Blob>): ModelSource {
+  const resources = Object.fromEntries(Object.entries(files).map(([file, blob]) => [file, URL.createObjectURL(blob)]))
+  return { url: resources[name], name, resources }
+}
@@ -0,0 +1,62 @@
+import * as THREE from 'three'
+import type { ModelSource } from '../types'
+import { builtInLoaders, type FormatLoader, type LoadProgress } from './formats'
+
+const SNIFF_BYTES = 512
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.')
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+// Picks a loader for an uploaded file: content signatures win over the file name,
+// since extensions are often wrong or missing (e.g. drag-and-drop from a browser).
+export function createLoaderRegistry(initial: FormatLoader[] = []) {
+  const loaders: FormatLoader[] = []
+
+  const register = (loader: FormatLoader) => {
+    const index = loaders.findIndex((l) => l.format === loader.format)
+    if (index >= 0) loaders[index] = loader
+    else loaders.push(loader)
+  }
+
+  const byExtension = (name: string) => {
+    const ext = extensionOf(name)
+    return loaders.find((l) => l.extensions.includes(ext)) ?? null
+  }
+
+  const detect = async (source: ModelSource) => {
+    const response = await fetch(source.url)
+    if (!response.ok) throw new Error(`Failed to read ${source.name} (${response.status})`)
+    const blob = await response.blob()
+    const head = new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer())
+    return loaders.find((l) => l.sniff?.(head, blob.size)) ?? byExtension(source.name)
+  }
+
+  const load = async (source: ModelSource, onProgress: LoadProgress = () => {}) => {
+    const loader = await detect(source)
+    if (!loader) {
+      const ext = extensionOf(source.name)
+      throw new Error(ext ? `Unsupported file format: .${ext}` : `Unrecognized file: ${source.name}`)
+    }
+
+    // Relative references inside the file (.bin buffers, .mtl, textures) resolve
+    // to the companion files uploaded with it, matched by file name
+    const manager = new THREE.LoadingManager()
+    const resources = source.resources ?? {}
+    manager.setURLModifier((url) => {
+      const name = decodeURIComponent(url.split('?')[0].split(/[\\/]/).pop() ?? '')
+      return resources[name] ?? url
+    })
+    return loader.load(source, manager, onProgress)
+  }
+
+  // For the file input's `accept` attribute
+  const accept = () => loaders.flatMap((l) => l.extensions.map((ext) => `.${ext}`)).concat('.mtl', '.bin').join(',')
+
+  initial.forEach(register)
+
+  return { register, detect, load, accept, byExtension, list: () => [...loaders] }
+}
+
+export const loaderRegistry = createLoaderRegistry(builtInLoaders)
@@ -0,0 +1,77 @@
+import { modelSourceFromFiles, readModelFiles } from '../loaders/modelSource'
+import type { ModelSource } from '../types'
+import { parsePreset, type ScenePreset } from './preset'
+
+const DB_NAME = 'zen-particles'
+const DB_VERSION = 1
+const STORE = 'presets'
+
+export interface StoredModel {
+  name: string // main file; the rest are companions
+  files: Record<string, Blob>
+}
+
+export interface LibraryEntry {
+  id: number
+  savedAt: string
+  preset: ScenePreset
+  model: StoredModel | null
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openLibrary() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser has no IndexedDB for the preset library'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Could not open the preset library'))
+  }).catch((err) => {
+    database = null // allow a retry, e.g. after private mode is left
+    throw err
+  })
+  return database
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  return openLibrary().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error ?? new Error('Preset library request failed'))
+      }),
+  )
+}
+
+// Stored presets go through parsePreset, so ones saved by older versions are migrated
+// on the way out; entries that no longer parse are skipped
+export async function listPresets(): Promise<LibraryEntry[]> {
+  const rows = await run<(Omit<LibraryEntry, 'preset'> & { preset: unknown })[]>('readonly', (store) => store.getAll())
+  return rows.flatMap((row) => {
+    try {
+      return [{ ...row, preset: parsePreset(row.preset) }]
+    } catch (err) {
+      console.warn(`Skipping preset ${row.id}:`, err)
+      return []
+    }
+  })
+}
+
+// Uploaded files are stored with the preset, so it restores the model too
+export async function savePreset(preset: ScenePreset, model: ModelSource | null) {
+  const stored: StoredModel | null = model ? { name: model.name, files: await readModelFiles(model) } : null
+  return run<IDBValidKey>('readwrite', (store) =>
+    store.add({ savedAt: new Date().toISOString(), preset, model: stored }),
+  )
+}
+
+export function deletePreset(id: number) {
+  return run<undefined>('readwrite', (store) => store.delete(id))
+}
+
+export const restoreModel = (model: StoredModel) => modelSourceFromFiles(model.name, model.files)
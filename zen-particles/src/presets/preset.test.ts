@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { calibrationStore, defaultProfile } from '../calibration/profile'
+import { defaultSceneSettings, initialControls } from '../scenes/settings'
+import { applyPresetStores, capturePreset, migratePreset, parsePreset, PRESET_VERSION } from './preset'
+
+const preset = capturePreset('Calm dots', {
+  mode: 'dots',
+  settings: { ...defaultSceneSettings, dotCount: 20_000, color: '#ff7eb6' },
+  view: { ...initialControls, zoom: 1.2, panX: 0.25 },
+})
+
+describe('parsePreset', () => {
+  it('reads back a current preset unchanged', () => {
+    expect(preset.version).toBe(PRESET_VERSION)
+    expect(parsePreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset)
+  })
+
+  it('fills in missing sections and clamps out-of-range values', () => {
+    const parsed = parsePreset({ version: 1, mode: 'shapes', view: { zoom: 99 } })
+    expect(parsed.name).toBe('Untitled')
+    expect(parsed.view.zoom).toBe(2.5)
+    expect(parsed.scene.shape).toBe(defaultSceneSettings.shape)
+    expect(parsed.sensitivity.fistThreshold).toBe(defaultProfile.fistThreshold)
+  })
+
+  it('rejects versions it has no upgrade for or that are newer', () => {
+    expect(() => parsePreset({ ...preset, version: 0 })).toThrow('Preset version 0 is no longer supported')
+    expect(() => parsePreset({ ...preset, version: PRESET_VERSION + 1 })).toThrow('is newer than this app supports')
+  })
+
+  it('runs older presets through the upgrade steps before validating them', () => {
+    // A v0 preset kept pan sensitivity as one gain instead of a per-axis reach
+    const v0 = { version: 0, name: 'Old', mode: 'solar', sensitivity: { panGain: 4 } }
+    const steps = {
+      0: ({ sensitivity, ...rest }: Record<string, unknown>) => {
+        const { panGain } = sensitivity as { panGain: number }
+        return { ...rest, sensitivity: { panReach: { x: 1 / panGain, y: 1 / panGain } } }
+      },
+    }
+    const upgraded = migratePreset(v0, steps, 1)
+    expect(upgraded.version).toBe(1)
+    const parsed = parsePreset(upgraded)
+    expect(parsed).toMatchObject({ name: 'Old', mode: 'solar', sensitivity: { panReach: { x: 0.25, y: 0.25 } } })
+  })
+})
+
+describe('applyPresetStores', () => {
+  const storage = new Map<string, string>()
+  beforeEach(() => {
+    storage.clear()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    })
+    calibrationStore.updateProfile({ fistThreshold: 0.8 })
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const shared = { ...preset, sensitivity: { ...preset.sensitivity, fistThreshold: 0.5 } }
+
+  it('uses the sensitivity from a shared link for the session without saving it', () => {
+    const saved = storage.get('zen-particles.calibration')
+    applyPresetStores(shared, { shared: true })
+    expect(calibrationStore.getState()).toMatchObject({ borrowed: true, profile: { fistThreshold: 0.5 } })
+    expect(storage.get('zen-particles.calibration')).toBe(saved)
+
+    calibrationStore.restoreOwn()
+    expect(calibrationStore.getState()).toMatchObject({ borrowed: false, profile: { fistThreshold: 0.8 } })
+  })
+
+  it('saves the shared sensitivity once the visitor keeps it', () => {
+    applyPresetStores(shared, { shared: true })
+    calibrationStore.keepBorrowed()
+    expect(JSON.parse(storage.get('zen-particles.calibration')!)).toMatchObject({ fistThreshold: 0.5 })
+  })
+
+  it('saves the sensitivity of presets the visitor applies themselves', () => {
+    applyPresetStores(shared)
+    expect(calibrationStore.getState().borrowed).toBe(false)
+    expect(JSON.parse(storage.get('zen-particles.calibration')!)).toMatchObject({ fistThreshold: 0.5 })
+  })
+})
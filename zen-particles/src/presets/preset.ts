@@ -0,0 +1,169 @@
+import { calibrationStore, defaultProfile, type CalibrationProfile } from '../calibration/profile'
+import type { CameraRigType } from '../camera/rigs'
+import { cameraStore, type CameraState, type ZoomLimits } from '../camera/store'
+import { CONTROL_LIMITS } from '../input/limits'
+import { sceneRegistry } from '../scenes/registry'
+import { defaultSceneSettings, initialControls, shapes } from '../scenes/settings'
+import type { HandControls, SceneMode, SceneSettings } from '../types'
+
+export const PRESET_VERSION = 1
+
+// The starting (and reset) view; hand tracking takes over from here
+export type PresetView = Pick<HandControls, 'zoom' | 'panX' | 'panY' | 'rotationY' | 'rotationZ'>
+
+export type PresetSensitivity = Pick<CalibrationProfile, 'openness' | 'fistThreshold' | 'panReach'>
+
+// Everything needed to set a session up again, except uploaded files: the local
+// library stores those next to the preset, links and JSON files leave them out
+export interface ScenePreset {
+  version: typeof PRESET_VERSION
+  name: string
+  mode: SceneMode
+  view: PresetView
+  camera: CameraState
+  scene: Omit<SceneSettings, 'model'>
+  sensitivity: PresetSensitivity
+}
+
+export interface PresetSession {
+  mode: SceneMode
+  settings: SceneSettings
+  view: HandControls
+}
+
+export function capturePreset(name: string, { mode, settings, view }: PresetSession): ScenePreset {
+  const { openness, fistThreshold, panReach } = calibrationStore.getState().profile
+  const { particleize, shape, color, dotCount } = settings
+  return {
+    version: PRESET_VERSION,
+    name,
+    mode,
+    view: { zoom: view.zoom, panX: view.panX, panY: view.panY, rotationY: view.rotationY, rotationZ: view.rotationZ },
+    camera: cameraStore.getState(),
+    scene: { particleize, shape, color, dotCount },
+    sensitivity: { openness, fistThreshold, panReach },
+  }
+}
+
+// The parts of a preset that live in module-level stores; App applies the rest.
+// A shared link's sensitivity is someone else's hand measurements, so it only
+// applies for this session unless the visitor keeps it.
+export function applyPresetStores(preset: ScenePreset, { shared = false } = {}) {
+  cameraStore.restore(preset.camera)
+  if (shared) calibrationStore.borrowProfile(preset.sensitivity)
+  else calibrationStore.updateProfile(preset.sensitivity)
+}
+
+type Json = Record<string, unknown>
+
+// Upgrades keyed by the version they read; each returns data for the next version.
+// Presets saved in the library or shared as links outlive releases, so bumping
+// PRESET_VERSION means adding the step from the previous one here.
+const migrations: Record<number, (data: Json) => Json> = {}
+
+// Reads a preset of any known version. Missing sections fall back to defaults,
+// out-of-range numbers are clamped and anything of the wrong type is an error.
+export function parsePreset(data: unknown): ScenePreset {
+  return validate(migratePreset(data))
+}
+
+// Runs the upgrade steps from the data's version up to `target`
+export function migratePreset(data: unknown, steps = migrations, target: number = PRESET_VERSION): Json {
+  if (!isObject(data) || typeof data.version !== 'number') throw new Error('Not a zen-particles preset')
+  if (data.version > target) {
+    throw new Error(`Preset version ${data.version} is newer than this app supports (${target})`)
+  }
+  let current = data
+  for (let version = data.version; version < target; version++) {
+    const migrate = steps[version]
+    if (!migrate) throw new Error(`Preset version ${version} is no longer supported`)
+    current = { ...migrate(current), version: version + 1 }
+  }
+  return current
+}
+
+const rigTypes: CameraRigType[] = ['orbit', 'fly', 'showcase']
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function section(data: Json, key: string): Json {
+  const value = data[key] ?? {}
+  if (!isObject(value)) throw new Error(`Preset ${key} must be an object`)
+  return value
+}
+
+function number(data: Json, key: string, fallback: number, min = -Infinity, max = Infinity) {
+  const value = data[key] ?? fallback
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Preset ${key} must be a number`)
+  return Math.min(Math.max(value, min), max)
+}
+
+function oneOf<T extends string>(data: Json, key: string, options: readonly T[], fallback: T): T {
+  const value = data[key] ?? fallback
+  if (!options.includes(value as T)) throw new Error(`Preset ${key} must be one of ${options.join(', ')}`)
+  return value as T
+}
+
+function perMode<T>(data: Json, read: (value: unknown, mode: SceneMode) => T) {
+  const result: Partial<Record<SceneMode, T>> = {}
+  Object.entries(data).forEach(([mode, value]) => {
+    // Modes from scenes that aren't registered here are dropped rather than rejected
+    if (sceneRegistry.ids().includes(mode as SceneMode)) result[mode as SceneMode] = read(value, mode as SceneMode)
+  })
+  return result
+}
+
+function validate(data: Json): ScenePreset {
+  const name = data.name ?? 'Untitled'
+  if (typeof name !== 'string') throw new Error('Preset name must be a string')
+
+  const view = section(data, 'view')
+  const scene = section(data, 'scene')
+  const camera = section(data, 'camera')
+  const sensitivity = section(data, 'sensitivity')
+  const openness = section(sensitivity, 'openness')
+  const panReach = section(sensitivity, 'panReach')
+
+  const color = scene.color ?? defaultSceneSettings.color
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) throw new Error('Preset color must be a #rrggbb hex colour')
+
+  const rigs = perMode(section(camera, 'rigs'), (value, mode) => oneOf({ [mode]: value }, mode, rigTypes, 'orbit'))
+  const limits = perMode(section(camera, 'limits'), (value, mode) => {
+    if (!isObject(value)) throw new Error(`Preset camera limits for ${mode} must be an object`)
+    const range: ZoomLimits = {}
+    if (value.minDist !== undefined) range.minDist = number(value, 'minDist', 0, 0.001)
+    if (value.maxDist !== undefined) range.maxDist = number(value, 'maxDist', 0, 0.001)
+    return range
+  })
+
+  return {
+    version: PRESET_VERSION,
+    name,
+    mode: oneOf(data, 'mode', sceneRegistry.ids(), 'solar'),
+    view: {
+      zoom: number(view, 'zoom', initialControls.zoom, CONTROL_LIMITS.zoom.min, CONTROL_LIMITS.zoom.max),
+      panX: number(view, 'panX', initialControls.panX, CONTROL_LIMITS.pan.min, CONTROL_LIMITS.pan.max),
+      panY: number(view, 'panY', initialControls.panY, CONTROL_LIMITS.pan.min, CONTROL_LIMITS.pan.max),
+      rotationY: number(view, 'rotationY', initialControls.rotationY, -Math.PI, Math.PI),
+      rotationZ: number(view, 'rotationZ', initialControls.rotationZ, -Math.PI, Math.PI),
+    },
+    camera: { rigs, limits },
+    scene: {
+      particleize: scene.particleize === undefined ? defaultSceneSettings.particleize : scene.particleize === true,
+      shape: oneOf(scene, 'shape', shapes, defaultSceneSettings.shape),
+      color,
+      dotCount: Math.round(number(scene, 'dotCount', defaultSceneSettings.dotCount, 1_000, 1_000_000)),
+    },
+    sensitivity: {
+      openness: {
+        open: number(openness, 'open', defaultProfile.openness.open, 0.1),
+        fist: number(openness, 'fist', defaultProfile.openness.fist, 0),
+      },
+      fistThreshold: number(sensitivity, 'fistThreshold', defaultProfile.fistThreshold, 0, 1),
+      panReach: {
+        x: number(panReach, 'x', defaultProfile.panReach.x, 0.01, 1),
+        y: number(panReach, 'y', defaultProfile.panReach.y, 0.01, 1),
+      },
+    },
+  }
+}
@@ -0,0 +1,51 @@
+import { downloadBlob } from '../utils/download'
+import { parsePreset, type ScenePreset } from './preset'
+
+const HASH_KEY = 'preset'
+
+// URL-safe base64 of the UTF-8 JSON, so names in any script survive the trip
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+}
+
+export function encodePresetHash(preset: ScenePreset) {
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(preset))}`
+}
+
+// null when the hash holds no preset; a broken one is reported and ignored
+export function readPresetHash(hash: string): ScenePreset | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY)
+  if (!encoded) return null
+  try {
+    return parsePreset(JSON.parse(fromBase64Url(encoded)))
+  } catch (err) {
+    console.warn('Ignoring the preset in the link:', err)
+    return null
+  }
+}
+
+export function parsePresetFile(text: string) {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Preset file is not valid JSON')
+  }
+  return parsePreset(data)
+}
+
+export function downloadPreset(preset: ScenePreset) {
+  const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' })
+  const slug = preset.name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'preset'
+  downloadBlob(blob, `zen-particles-${slug}.json`)
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { defaultProfile } from '../calibration/profile'
+import { createHandControlsMapper } from '../gestures/handControlsMapper'
+import fistPan from '../test/fixtures/fist-pan.json'
+import { createReplayPlayer } from './player'
+import { mapRecording, parseRecording, toHandFrame, type RecordedFrame } from './recording'
+
+const recording = parseRecording(JSON.stringify(fistPan))
+
+// Animation frames run only when the test advances the clock
+let clock = 1000
+let queued: FrameRequestCallback[] = []
+const advance = (ms: number) => {
+  clock += ms
+  const callbacks = queued
+  queued = []
+  callbacks.forEach((cb) => cb(clock))
+}
+
+beforeEach(() => {
+  clock = 1000
+  queued = []
+  vi.spyOn(performance, 'now').mockImplementation(() => clock)
+  vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => queued.push(cb))
+  vi.stubGlobal('cancelAnimationFrame', () => {
+    queued = []
+  })
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+// Plays the whole recording at `speed`, ticking every `tickMs`
+function replay(speed: number, tickMs: number) {
+  const emitted: { frame: RecordedFrame; timestamp: number }[] = []
+  const player = createReplayPlayer(
+    recording,
+    (frame, timestamp) => emitted.push({ frame, timestamp }),
+    () => {},
+    () => {},
+  )
+  player.setSpeed(speed)
+  player.play()
+  while (player.getState().playing) advance(tickMs)
+  return emitted
+}
+
+describe('replay player', () => {
+  it('keeps the recorded frame spacing, scaled by the speed, when many frames share a tick', () => {
+    const emitted = replay(4, 16)
+    expect(emitted.map((e) => e.frame)).toEqual(recording.frames)
+    emitted.slice(1).forEach((e, i) => {
+      const previous = emitted[i]
+      expect(e.timestamp - previous.timestamp).toBeCloseTo((e.frame.t - previous.frame.t) / 4, 6)
+    })
+  })
+
+  it('maps a 1× replay exactly like mapRecording, whatever the tick rate', () => {
+    const mapper = createHandControlsMapper()
+    const replayed = replay(1, 100).map(({ frame, timestamp }) => mapper.map(toHandFrame(frame, timestamp), defaultProfile))
+    const expected = mapRecording(recording)
+    replayed.forEach((controls, i) => {
+      expect(controls.zoom).toBeCloseTo(expected[i].zoom, 6)
+      expect(controls.panX).toBeCloseTo(expected[i].panX, 6)
+    })
+  })
+
+  it('stamps strictly increasing times across seeks and speed changes', () => {
+    const stamps: number[] = []
+    const player = createReplayPlayer(
+      recording,
+      (_frame, timestamp) => stamps.push(timestamp),
+      () => {},
+      () => {},
+    )
+    player.play()
+    advance(300)
+    player.seek(100)
+    player.setSpeed(2)
+    advance(16)
+    player.seek(1500)
+    advance(0)
+    advance(16)
+    expect(stamps.length).toBeGreaterThan(4)
+    stamps.slice(1).forEach((stamp, i) => expect(stamp).toBeGreaterThan(stamps[i]))
+  })
+})
@@ -0,0 +1,99 @@
+import type { LandmarkRecording, RecordedFrame } from './recording'
+
+export interface PlayerState {
+  playing: boolean
+  position: number // ms into the recording
+  speed: number
+}
+
+// Gap kept between two stamps when frames would otherwise share one
+const MIN_STAMP_STEP_MS = 0.01
+
+// Plays a recording back on the wall clock, emitting every frame the playhead passes.
+// Each frame comes with its replay timestamp: the recorded spacing divided by the
+// speed, anchored at the wall clock on every play, seek and speed change and always
+// increasing, so frames passed in the same animation frame keep their own times.
+// `onSeek` fires on jumps so consumers can drop motion history.
+export function createReplayPlayer(
+  recording: LandmarkRecording,
+  onFrame: (frame: RecordedFrame, timestamp: number) => void,
+  onState: (state: PlayerState) => void,
+  onSeek: () => void,
+) {
+  let state: PlayerState = { playing: false, position: 0, speed: 1 }
+  let nextIndex = 0
+  let raf = 0
+  let lastTick = 0
+  let anchor = { clock: 0, t: 0 }
+  let lastStamp = -Infinity
+
+  const setState = (patch: Partial<PlayerState>) => {
+    state = { ...state, ...patch }
+    onState(state)
+  }
+
+  const rebase = (position: number) => {
+    anchor = { clock: Math.max(performance.now(), lastStamp), t: position }
+  }
+
+  const emit = (frame: RecordedFrame) => {
+    const stamp = Math.max(anchor.clock + (frame.t - anchor.t) / state.speed, lastStamp + MIN_STAMP_STEP_MS)
+    lastStamp = stamp
+    onFrame(frame, stamp)
+  }
+
+  const tick = (now: number) => {
+    const position = state.position + (now - lastTick) * state.speed
+    lastTick = now
+    const frames = recording.frames
+    while (nextIndex < frames.length && frames[nextIndex].t <= position) {
+      emit(frames[nextIndex])
+      nextIndex++
+    }
+    if (nextIndex >= frames.length) {
+      setState({ playing: false, position: recording.durationMs })
+      return
+    }
+    setState({ position })
+    raf = requestAnimationFrame(tick)
+  }
+
+  const play = () => {
+    if (state.playing) return
+    if (nextIndex >= recording.frames.length) seek(0)
+    lastTick = performance.now()
+    rebase(state.position)
+    setState({ playing: true })
+    raf = requestAnimationFrame(tick)
+  }
+
+  const pause = () => {
+    cancelAnimationFrame(raf)
+    setState({ playing: false })
+  }
+
+  // Jumps the playhead and shows the frame at that point, even while paused
+  const seek = (position: number) => {
+    const clamped = Math.min(Math.max(position, 0), recording.durationMs)
+    onSeek()
+    const index = recording.frames.findIndex((f) => f.t >= clamped)
+    nextIndex = index === -1 ? recording.frames.length : index
+    rebase(clamped)
+    if (nextIndex < recording.frames.length) {
+      emit(recording.frames[nextIndex])
+      nextIndex++
+    }
+    setState({ position: clamped })
+  }
+
+  const setSpeed = (speed: number) => {
+    rebase(state.position)
+    setState({ speed })
+  }
+
+  const dispose = () => cancelAnimationFrame(raf)
+
+  return { play, pause, seek, setSpeed, dispose, getState: () => state }
+}
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>
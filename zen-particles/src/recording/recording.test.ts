@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import fistPan from '../test/fixtures/fist-pan.json'
+import { mapRecording, parseRecording } from './recording'
+
+// A synthetic session in the recording format (scripts/generate-hand-fixtures.mjs):
+// open hand, closes to a fist, drags towards image x = 1, holds, opens again. Its
+// idealized poses cover the mapping, not real MediaPipe jitter or handedness flips.
+const recording = parseRecording(JSON.stringify(fistPan))
+const at = (controls: ReturnType<typeof mapRecording>, t: number) =>
+  controls[recording.frames.findIndex((frame) => frame.t >= t)]
+
+describe('mapRecording on a synthetic fist-pan session', () => {
+  it('maps the same recording to the same controls every time', () => {
+    expect(mapRecording(recording)).toEqual(mapRecording(recording))
+  })
+
+  it('zooms in as the hand closes and pans with the closed fist', () => {
+    const controls = mapRecording(recording)
+    expect(at(controls, 300).zoom).toBeLessThan(at(controls, 800).zoom - 1)
+    expect(at(controls, 800).panX).toBe(0)
+    expect(at(controls, 1300).panX).toBeGreaterThan(0.8)
+    expect(controls.every((c) => c.panY === 0)).toBe(true)
+  })
+
+  it('eases the pan back once the fist opens', () => {
+    const controls = mapRecording(recording)
+    expect(at(controls, 1990).panX).toBeLessThan(at(controls, 1500).panX / 4)
+    expect(at(controls, 1990).zoom).toBeCloseTo(at(controls, 300).zoom, 1)
+  })
+})
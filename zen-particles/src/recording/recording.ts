@@ -0,0 +1,94 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { defaultProfile, type CalibrationProfile, type Handedness } from '../calibration/profile'
+import { createHandControlsMapper, type HandFrame } from '../gestures/handControlsMapper'
+import type { HandControls } from '../types'
+import { downloadBlob } from '../utils/download'
+import type { FilterConfig } from '../utils/signalFilters'
+
+export interface RecordedFrame {
+  t: number // ms since the recording started
+  hands: { landmarks: [number, number, number][]; handedness?: Handedness }[]
+}
+
+export interface LandmarkRecording {
+  version: 1
+  createdAt: string
+  durationMs: number
+  frames: RecordedFrame[]
+}
+
+// 5 decimals is well below landmark noise and keeps files small
+const round = (value: number) => Math.round(value * 1e5) / 1e5
+
+export function createRecorder() {
+  const frames: RecordedFrame[] = []
+  let startTime: number | null = null
+
+  const add = (frame: HandFrame) => {
+    if (startTime === null) startTime = frame.timestamp
+    frames.push({
+      t: round(frame.timestamp - startTime),
+      hands: frame.landmarks.map((landmarks, i) => ({
+        landmarks: landmarks.map((l) => [round(l.x), round(l.y), round(l.z || 0)]),
+        handedness: frame.handedness[i],
+      })),
+    })
+  }
+
+  const finish = (): LandmarkRecording => ({
+    version: 1,
+    createdAt: new Date().toISOString(),
+    durationMs: frames.length ? frames[frames.length - 1].t : 0,
+    frames: [...frames],
+  })
+
+  return { add, finish, getFrameCount: () => frames.length }
+}
+
+// Rebuilds the detector-shaped frame at a given clock time
+export function toHandFrame(frame: RecordedFrame, timestamp: number): HandFrame {
+  return {
+    landmarks: frame.hands.map((hand) =>
+      hand.landmarks.map(([x, y, z]): NormalizedLandmark => ({ x, y, z, visibility: 1 })),
+    ),
+    handedness: frame.hands.map((hand) => hand.handedness),
+    timestamp,
+  }
+}
+
+export function parseRecording(text: string): LandmarkRecording {
+  const data = JSON.parse(text) as Partial<LandmarkRecording>
+  if (data.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error('Not a zen-particles landmark recording (version 1)')
+  }
+  const valid = data.frames.every(
+    (f) =>
+      typeof f.t === 'number' &&
+      Array.isArray(f.hands) &&
+      f.hands.every((h) => Array.isArray(h.landmarks) && h.landmarks.length === 21),
+  )
+  if (!valid) throw new Error('Recording has malformed frames')
+  const frames = [...data.frames].sort((a, b) => a.t - b.t)
+  return {
+    version: 1,
+    createdAt: data.createdAt ?? '',
+    durationMs: frames.length ? frames[frames.length - 1].t : 0,
+    frames,
+  }
+}
+
+export function downloadRecording(recording: LandmarkRecording) {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' })
+  downloadBlob(blob, `hand-session-${recording.createdAt.replace(/[:.]/g, '-')}.json`)
+}
+
+// Deterministically runs a whole recording through the gesture -> controls mapping
+// (recorded timestamps, no wall clock), e.g. to assert on the output in tests
+export function mapRecording(
+  recording: LandmarkRecording,
+  profile: CalibrationProfile = defaultProfile,
+  filterConfig?: FilterConfig,
+): HandControls[] {
+  const mapper = createHandControlsMapper(filterConfig)
+  return recording.frames.map((frame) => mapper.map(toHandFrame(frame, frame.t), profile))
+}
@@ -0,0 +1,86 @@
+import type { HandFrame } from '../gestures/handControlsMapper'
+import { createStore, useStore } from '../utils/store'
+import { createReplayPlayer, type PlayerState, type ReplayPlayer } from './player'
+import { createRecorder, downloadRecording, toHandFrame, type LandmarkRecording } from './recording'
+
+export interface RecordingState {
+  recording: boolean
+  recordedFrames: number
+  replay: (PlayerState & { name: string; durationMs: number }) | null
+}
+
+type ReplayListener = { onFrame: (frame: HandFrame) => void; onSeek: () => void }
+
+const { getState, setState, subscribe } = createStore<RecordingState>({
+  recording: false,
+  recordedFrames: 0,
+  replay: null,
+})
+const replayListeners = new Set<ReplayListener>()
+let recorder: ReturnType<typeof createRecorder> | null = null
+let player: ReplayPlayer | null = null
+
+export const recordingStore = {
+  getState,
+  subscribe,
+
+  // Replayed frames carry the player's replay clock, which keeps the recorded frame
+  // spacing (scaled by the speed), so smoothing and swipe timing see the recorded
+  // motion rather than however many frames one animation frame happened to pass
+  subscribeReplay: (listener: ReplayListener) => {
+    replayListeners.add(listener)
+    return () => {
+      replayListeners.delete(listener)
+    }
+  },
+
+  startRecording: () => {
+    recorder = createRecorder()
+    setState({ recording: true, recordedFrames: 0 })
+  },
+  recordFrame: (frame: HandFrame) => {
+    if (!recorder) return
+    recorder.add(frame)
+    // Counter only feeds the UI; don't re-render on every frame
+    if (recorder.getFrameCount() % 15 === 0) setState({ recordedFrames: recorder.getFrameCount() })
+  },
+  stopRecording: () => {
+    const finished = recorder?.finish()
+    recorder = null
+    setState({ recording: false, recordedFrames: 0 })
+    if (finished && finished.frames.length) downloadRecording(finished)
+    return finished ?? null
+  },
+
+  loadReplay: (recording: LandmarkRecording, name: string) => {
+    player?.dispose()
+    player = createReplayPlayer(
+      recording,
+      (frame, timestamp) => {
+        const handFrame = toHandFrame(frame, timestamp)
+        replayListeners.forEach((l) => l.onFrame(handFrame))
+      },
+      (playerState) => {
+        const { replay } = getState()
+        setState({ replay: replay && { ...replay, ...playerState } })
+      },
+      () => replayListeners.forEach((l) => l.onSeek()),
+    )
+    setState({ replay: { ...player.getState(), name, durationMs: recording.durationMs } })
+    player.play()
+  },
+  closeReplay: () => {
+    player?.dispose()
+    player = null
+    replayListeners.forEach((l) => l.onSeek())
+    setState({ replay: null })
+  },
+  play: () => player?.play(),
+  pause: () => player?.pause(),
+  seek: (position: number) => player?.seek(position),
+  setSpeed: (speed: number) => player?.setSpeed(speed),
+}
+
+export function useRecording() {
+  return useStore(recordingStore)
+}
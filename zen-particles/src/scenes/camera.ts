@@ -0,0 +1,13 @@
+import type * as THREE from 'three'
+import type { CameraPreset } from './types'
+
+export const DEFAULT_CAMERA: CameraPreset = { baseDist: 10, minDist: 4, maxDist: 25, baseY: 4, fog: 0.04 }
+
+// Keeps the camera outside the content at full zoom and the content readable fully zoomed out
+export const cameraFromBounds = (sphere: THREE.Sphere): CameraPreset => ({
+  baseDist: sphere.radius * 3.3,
+  minDist: sphere.radius * 1.3,
+  maxDist: sphere.radius * 8,
+  baseY: sphere.center.y,
+  fog: 0.04,
+})
@@ -0,0 +1,37 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { CONTROL_LIMITS } from '../input/limits'
+import { createStubSceneContext } from '../test/webglStub'
+import dotsScene from './dots'
+import { defaultSceneSettings, initialControls } from './settings'
+
+const settings = { ...defaultSceneSettings, dotCount: 2000 }
+
+describe('dots scene', () => {
+  it('sets up, follows zoom and count changes, and frees everything on dispose', () => {
+    const context = createStubSceneContext()
+    const { scene, camera, renderer } = context
+    const instance = dotsScene.setup(context, settings)
+    scene.add(instance.root)
+    const points = instance.root as THREE.Points
+    const material = points.material as THREE.ShaderMaterial
+    expect(points.geometry.getAttribute('position').count).toBe(2000)
+
+    instance.update(1 / 60, { ...initialControls, zoom: CONTROL_LIMITS.zoom.min }, 1, null)
+    expect(material.uniforms.expansion.value).toBe(0)
+    instance.update(1 / 60, { ...initialControls, zoom: CONTROL_LIMITS.zoom.max }, 2, null)
+    expect(material.uniforms.expansion.value).toBe(1)
+    expect(material.uniforms.time.value).toBe(2)
+    renderer.render(scene, camera)
+    expect(renderer.info.memory.geometries).toBe(1)
+
+    // A new count swaps the buffer; the old one is released
+    instance.configure!({ ...settings, dotCount: 500 })
+    renderer.render(scene, camera)
+    expect(points.geometry.getAttribute('position').count).toBe(500)
+    expect(renderer.info.memory.geometries).toBe(1)
+
+    instance.dispose()
+    expect(renderer.info.memory).toEqual({ geometries: 0, textures: 0 })
+  })
+})
@@ -0,0 +1,71 @@
+import * as THREE from 'three'
+import { particleResponse } from '../audio/bindings'
+import DotsControls from '../components/DotsControls'
+import { disposeObject } from '../utils/disposeObject'
+import { createDotMaterial, setDotResponse, setDotScale } from '../utils/dotShader'
+import { DEFAULT_CAMERA } from './camera'
+import { createScatterGeometry, DOT_SPREAD, dotSize } from './scatter'
+import type { SceneModule } from './types'
+
+function createDotGeometry(count: number) {
+  // Initial positions: tight concentrated sphere (contracted state)
+  const initialPositions = new Float32Array(count * 3)
+  const radius = 0.6 // Smaller, tighter sphere radius
+
+  for (let i = 0; i < count; i++) {
+    // Initial: tight uniform sphere surface (more concentrated)
+    const u = Math.random()
+    const v = Math.random()
+    const theta = 2 * Math.PI * u
+    const phi = Math.acos(2 * v - 1)
+    // Use uniform distribution on sphere surface for tighter ball
+    const r = radius * (0.8 + Math.random() * 0.2) // Slight variation but mostly on surface
+
+    initialPositions[i * 3] = r * Math.sin(phi) * Math.cos(theta)
+    initialPositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta)
+    initialPositions[i * 3 + 2] = r * Math.cos(phi)
+  }
+
+  return createScatterGeometry(initialPositions, DOT_SPREAD)
+}
+
+// A ball of particles that hand zoom breaks into fragments and reassembles
+const dotsScene: SceneModule = {
+  setup({ renderer }, settings) {
+    const dots = new THREE.Points(
+      createDotGeometry(settings.dotCount),
+      createDotMaterial({ size: dotSize(settings.dotCount) }),
+    )
+    const material = dots.material as THREE.ShaderMaterial
+    setDotScale(material, renderer)
+
+    return {
+      root: dots,
+      camera: () => DEFAULT_CAMERA,
+      // Swap in a new buffer when the particle count changes; the material is kept
+      configure: ({ dotCount }) => {
+        if (dots.geometry.getAttribute('position').count === dotCount) return
+        dots.geometry.dispose()
+        dots.geometry = createDotGeometry(dotCount)
+        material.uniforms.size.value = dotSize(dotCount)
+      },
+      // Contract to sphere (low zoom) or expand to fragments (high zoom).
+      // Interpolation happens in the vertex shader; only uniforms change per frame.
+      update: (_dt, controls, time, audio) => {
+        // zoom range maps to expansion 0-1 (closed hand = zoom in = expand fragments)
+        const response = particleResponse(controls, audio)
+        material.uniforms.expansion.value = response.expansion
+        setDotResponse(material, response)
+        material.uniforms.time.value = time
+        // Rotate dots slowly for visual effect
+        dots.rotation.y = time * 0.1
+        dots.rotation.x = time * 0.05
+      },
+      resize: () => setDotScale(material, renderer),
+      dispose: () => disposeObject(dots),
+    }
+  },
+  Panel: DotsControls,
+}
+
+export default dotsScene
@@ -0,0 +1,72 @@
+import * as THREE from 'three'
+import { describe, expect, it, vi } from 'vitest'
+import { createStubSceneContext } from '../test/webglStub'
+import type { ModelLoadStatus, ModelSource } from '../types'
+import { defaultSceneSettings } from './settings'
+import modelScene from './model'
+
+// Every upload loads as a fresh textured object: two meshes sharing a material with
+// two maps, plus a mesh of its own
+vi.mock('../loaders/registry', () => ({
+  loaderRegistry: {
+    load: async () => {
+      const map = () => {
+        const texture = new THREE.DataTexture(new Uint8Array(4), 1, 1)
+        texture.needsUpdate = true
+        return texture
+      }
+      const shared = new THREE.MeshStandardMaterial({ map: map(), normalMap: map() })
+      const group = new THREE.Group()
+      group.add(new THREE.Mesh(new THREE.BoxGeometry(), shared))
+      group.add(new THREE.Mesh(new THREE.SphereGeometry(), shared))
+      group.add(new THREE.Mesh(new THREE.TorusGeometry(), new THREE.MeshBasicMaterial({ map: map() })))
+      return { kind: 'object', object: group, animations: [] }
+    },
+  },
+}))
+
+const UPLOADS = 5
+
+describe('model scene', () => {
+  it('frees the GPU memory of replaced uploads', async () => {
+    // No 2D canvas here, so the particle cloud samples untextured colors
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) })
+    let ready = () => {}
+    const context = createStubSceneContext((status: ModelLoadStatus) => {
+      if (status.state === 'ready') ready()
+    })
+    const { scene, camera, renderer } = context
+    const instance = modelScene.setup(context, defaultSceneSettings)
+    scene.add(instance.root)
+
+    // Both the loaded object and its particle cloud reach the GPU
+    const renderBoth = (model: ModelSource | null) => {
+      instance.configure!({ ...defaultSceneSettings, model, particleize: false })
+      renderer.render(scene, camera)
+      instance.configure!({ ...defaultSceneSettings, model, particleize: true })
+      renderer.render(scene, camera)
+    }
+
+    renderer.render(scene, camera)
+    const baseline = { ...renderer.info.memory }
+
+    let loaded: { geometries: number; textures: number } | null = null
+    for (let i = 0; i < UPLOADS; i++) {
+      const model = { url: `blob:upload-${i}`, name: `upload-${i}.glb` }
+      const done = new Promise<void>((resolve) => (ready = resolve))
+      instance.configure!({ ...defaultSceneSettings, model })
+      await done
+      renderBoth(model)
+      loaded ??= { ...renderer.info.memory }
+      expect(renderer.info.memory).toEqual(loaded)
+    }
+    // Three geometries and three maps for the object, one geometry for the cloud
+    expect(loaded).toEqual({ geometries: baseline.geometries + 4, textures: baseline.textures + 3 })
+
+    renderBoth(null)
+    expect(renderer.info.memory).toEqual(baseline)
+
+    instance.dispose()
+    vi.unstubAllGlobals()
+  })
+})
@@ -0,0 +1,249 @@
+import * as THREE from 'three'
+import { animationStore } from '../animation/store'
+import { particleResponse } from '../audio/bindings'
+import AnimationControls from '../components/AnimationControls'
+import { gestureRegistry } from '../gestures/registry'
+import { loaderRegistry } from '../loaders/registry'
+import type { ModelSource } from '../types'
+import { disposeObject } from '../utils/disposeObject'
+import { createDotMaterial, setDotResponse, setDotScale } from '../utils/dotShader'
+import { sampleImage, sampleMeshSurface, type PointSamples } from '../utils/particleize'
+import { cameraFromBounds, DEFAULT_CAMERA } from './camera'
+import { createScatterGeometry, DOT_SPREAD, dotSize } from './scatter'
+import type { CameraPreset, SceneModule } from './types'
+
+const MODEL_POINTS = 80_000
+const SCRUB_GAIN = 1 // a full left-to-right sweep of the pan range covers one clip length
+const MODEL_RADIUS = 3 // uploads are scaled so their bounding sphere has this radius
+
+// Wraps loaded content in a pivot so it is centered on the origin with a fixed
+// bounding-sphere size, whatever units and offsets the file was authored in
+function normalizeContent(object: THREE.Object3D, radius = MODEL_RADIUS) {
+  const sphere = new THREE.Box3().setFromObject(object, true).getBoundingSphere(new THREE.Sphere())
+  const pivot = new THREE.Group()
+  pivot.name = 'modelPivot'
+  object.position.sub(sphere.center)
+  pivot.add(object)
+  if (sphere.radius > 0) pivot.scale.setScalar(radius / sphere.radius)
+  return pivot
+}
+
+// Uploaded model or image as colored points; scattered the same way as the dots
+function createModelCloud(samples: PointSamples) {
+  // Same centering and size as normalizeContent, applied to the points themselves
+  const sphere = new THREE.Box3()
+    .setFromBufferAttribute(new THREE.BufferAttribute(samples.positions, 3))
+    .getBoundingSphere(new THREE.Sphere())
+  for (let i = 0; i < samples.positions.length; i += 3) {
+    samples.positions[i] -= sphere.center.x
+    samples.positions[i + 1] -= sphere.center.y
+    samples.positions[i + 2] -= sphere.center.z
+  }
+  const scale = sphere.radius > 0 ? MODEL_RADIUS / sphere.radius : 1
+  const geometry = createScatterGeometry(samples.positions, DOT_SPREAD / scale, samples.colors)
+  const material = createDotMaterial({ color: 0xffffff, size: dotSize(MODEL_POINTS) / scale, vertexColors: true })
+  const points = new THREE.Points(geometry, material)
+  points.scale.setScalar(scale)
+  points.name = 'modelCloud'
+  return points
+}
+
+// An uploaded model or image, shown as loaded or as a particle cloud, with its
+// animation clips driven by the animation store
+const modelScene: SceneModule = {
+  setup({ renderer, onModelStatus }, settings) {
+    const root = new THREE.Group()
+    let source: ModelSource | null = null
+    let particleize = settings.particleize
+    let content: THREE.Object3D | null = null
+    let cloud: THREE.Points | null = null
+    let framing: CameraPreset = DEFAULT_CAMERA
+    let mixer: THREE.AnimationMixer | null = null
+    let clips: THREE.AnimationClip[] = []
+    let action: THREE.AnimationAction | null = null
+    let scrub: { panX: number; panY: number; time: number } | null = null
+    let lastTimePublish = -Infinity
+    let cancelLoad = () => {}
+
+    // The upload shows either as the loaded object or as its particle cloud
+    const show = () => {
+      if (content) content.visible = !particleize
+      if (cloud) cloud.visible = particleize
+    }
+
+    const setCloud = (samples: PointSamples | null) => {
+      if (cloud) {
+        root.remove(cloud)
+        disposeObject(cloud)
+        cloud = null
+      }
+      if (!samples?.positions.length) return
+      cloud = createModelCloud(samples)
+      setDotScale(cloud.material as THREE.ShaderMaterial, renderer)
+      root.add(cloud)
+    }
+
+    // Replace the mixer for a new upload; `target` is what the clips' tracks target
+    const setAnimations = (target: THREE.Object3D | null, nextClips: THREE.AnimationClip[]) => {
+      if (mixer) {
+        mixer.stopAllAction()
+        mixer.uncacheRoot(mixer.getRoot())
+      }
+      mixer = target && nextClips.length ? new THREE.AnimationMixer(target) : null
+      clips = nextClips
+      action = null
+      animationStore.setClips(nextClips.map((clip) => ({ name: clip.name || 'clip', duration: clip.duration })))
+    }
+
+    // Removes the current upload and frees everything it holds on the GPU
+    const clear = () => {
+      if (content) {
+        root.remove(content)
+        disposeObject(content)
+        content = null
+      }
+      setCloud(null)
+      framing = DEFAULT_CAMERA
+      root.rotation.set(0, 0, 0)
+      setAnimations(null, [])
+    }
+
+    const load = (next: ModelSource | null) => {
+      cancelLoad()
+      source = next
+      if (!next) {
+        clear()
+        onModelStatus({ state: 'idle' })
+        return
+      }
+
+      let cancelled = false
+      cancelLoad = () => {
+        cancelled = true
+      }
+      const name = next.name
+      onModelStatus({ state: 'loading', name, progress: null })
+
+      loaderRegistry
+        .load(next, (progress) => {
+          if (!cancelled) onModelStatus({ state: 'loading', name, progress })
+        })
+        .then((loaded) => {
+          if (cancelled) {
+            // Superseded while loading; never shown, so free it right away
+            if (loaded.kind === 'image') loaded.texture.dispose()
+            else disposeObject(loaded.object)
+            return
+          }
+          clear()
+
+          let object: THREE.Object3D
+          if (loaded.kind === 'image') {
+            // Images wrap a sphere; the particle cloud uses the flat picture
+            const texture = loaded.texture
+            texture.flipY = false // Fix image orientation
+            const geometry = new THREE.SphereGeometry(MODEL_RADIUS, 64, 64)
+            const material = new THREE.MeshStandardMaterial({
+              map: texture,
+              side: THREE.DoubleSide,
+              emissive: new THREE.Color(0x222222),
+              emissiveIntensity: 0.2,
+            })
+            object = new THREE.Mesh(geometry, material)
+            object.name = 'imageSphere'
+            setCloud(sampleImage(texture.image as HTMLImageElement))
+          } else {
+            setCloud(sampleMeshSurface(loaded.object, MODEL_POINTS))
+            object = normalizeContent(loaded.object)
+            setAnimations(loaded.object, loaded.animations)
+          }
+          framing = cameraFromBounds(new THREE.Box3().setFromObject(object, true).getBoundingSphere(new THREE.Sphere()))
+          content = object
+          root.add(object)
+          show()
+          onModelStatus({ state: 'ready', name })
+        })
+        .catch((error: unknown) => {
+          console.error('Error loading upload:', error)
+          if (cancelled) return
+          const message = error instanceof Error ? error.message : 'Could not load file'
+          onModelStatus({ state: 'error', name, message })
+        })
+    }
+
+    // Follow clip choice, seeks and play/pause from the animation panel and gestures
+    let applied = { clips: [] as unknown, clipIndex: -1, seekVersion: -1 }
+    const syncAnimation = () => {
+      const state = animationStore.getState()
+      if (!mixer) return
+      if (state.clips !== applied.clips || state.clipIndex !== applied.clipIndex) {
+        action?.stop()
+        action = mixer.clipAction(clips[state.clipIndex]).play()
+      }
+      if (state.seekVersion !== applied.seekVersion) {
+        action!.time = state.time
+        mixer.update(0)
+      }
+      applied = { clips: state.clips, clipIndex: state.clipIndex, seekVersion: state.seekVersion }
+    }
+    const unsubscribeAnimation = animationStore.subscribe(syncAnimation)
+
+    load(settings.model)
+
+    return {
+      root,
+      camera: () => framing,
+      configure: (next) => {
+        if (next.model !== source) load(next.model)
+        particleize = next.particleize
+        show()
+      },
+      update: (dt, controls, time, audio) => {
+        const animation = animationStore.getState()
+        // Fist + horizontal motion scrubs the clip; the camera holds the pan it had
+        // when the fist closed so the same motion doesn't also slide the view
+        if (action && gestureRegistry.isActive('fist')) {
+          scrub ??= { panX: controls.panX, panY: controls.panY, time: action.time }
+          const duration = action.getClip().duration
+          const scrubTime = scrub.time + ((controls.panX - scrub.panX) / 2) * duration * SCRUB_GAIN
+          action.time = THREE.MathUtils.clamp(scrubTime, 0, duration)
+          mixer?.update(0)
+        } else {
+          scrub = null
+          if (action && animation.playing) mixer?.update(dt * (controls.timeScale ?? 1))
+        }
+        if (action && time - lastTimePublish > 0.1) {
+          lastTimePublish = time
+          animationStore.tick(action.time)
+        }
+
+        // Rotate slowly unless the spin is switched off
+        if (animation.autoSpin) {
+          root.rotation.y += dt * 0.1
+          root.rotation.x += dt * 0.05
+        }
+
+        // Particle-ized upload scatters with zoom exactly like the dots
+        if (cloud) {
+          const material = cloud.material as THREE.ShaderMaterial
+          const response = particleResponse(controls, audio)
+          material.uniforms.expansion.value = response.expansion
+          material.uniforms.time.value = time
+          setDotResponse(material, response)
+        }
+      },
+      heldPan: () => (scrub ? { panX: scrub.panX, panY: scrub.panY } : null),
+      resize: () => {
+        if (cloud) setDotScale(cloud.material as THREE.ShaderMaterial, renderer)
+      },
+      dispose: () => {
+        cancelLoad()
+        unsubscribeAnimation()
+        clear()
+      },
+    }
+  },
+  Panel: AnimationControls,
+}
+
+export default modelScene
@@ -0,0 +1,45 @@
+import * as THREE from 'three'
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_CAMERA } from './camera'
+import { createSceneRegistry } from './registry'
+import type { SceneModule } from './types'
+
+const stubModule: SceneModule = {
+  setup: () => ({ root: new THREE.Group(), camera: () => DEFAULT_CAMERA, update: () => {}, dispose: () => {} }),
+}
+
+describe('createSceneRegistry', () => {
+  it('shares one load between callers and keeps the loaded module', async () => {
+    const loader = vi.fn(async () => ({ default: stubModule }))
+    const registry = createSceneRegistry({ dots: loader })
+    expect(registry.peek('dots')).toBeNull()
+
+    const [a, b] = await Promise.all([registry.load('dots'), registry.load('dots')])
+    expect(a).toBe(stubModule)
+    expect(b).toBe(stubModule)
+    await registry.load('dots')
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(registry.peek('dots')).toBe(stubModule)
+  })
+
+  it('forgets a failed load so the next one retries', async () => {
+    const loader = vi
+      .fn<() => Promise<{ default: SceneModule }>>()
+      .mockRejectedValueOnce(new Error('chunk failed'))
+      .mockResolvedValue({ default: stubModule })
+    const registry = createSceneRegistry({ dots: loader })
+
+    await expect(registry.load('dots')).rejects.toThrow('chunk failed')
+    expect(registry.peek('dots')).toBeNull()
+    await expect(registry.load('dots')).resolves.toBe(stubModule)
+    expect(loader).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects unknown ids and replaces registered loaders', async () => {
+    const registry = createSceneRegistry<string>({})
+    await expect(registry.load('nope')).rejects.toThrow('Unknown scene: nope')
+    registry.register('nope', async () => ({ default: stubModule }))
+    await expect(registry.load('nope')).resolves.toBe(stubModule)
+    expect(registry.ids()).toEqual(['nope'])
+  })
+})
@@ -0,0 +1,53 @@
+import type { SceneModule } from './types'
+
+type SceneLoader = () => Promise<{ default: SceneModule }>
+
+// Each scene is its own chunk, fetched the first time its mode is shown
+const builtInScenes = {
+  solar: () => import('./solar'),
+  dots: () => import('./dots'),
+  shapes: () => import('./shapes'),
+  model: () => import('./model'),
+} satisfies Record<string, SceneLoader>
+
+export type SceneMode = keyof typeof builtInScenes
+
+// Scene modules by id, loaded on demand. Loads are shared, and a failed load is
+// forgotten so it can be retried.
+export function createSceneRegistry<Id extends string>(initial: Record<Id, SceneLoader>) {
+  const loaders = new Map(Object.entries(initial) as [Id, SceneLoader][])
+  const pending = new Map<Id, Promise<SceneModule>>()
+  const loaded = new Map<Id, SceneModule>()
+
+  const register = (id: Id, loader: SceneLoader) => {
+    loaders.set(id, loader)
+    pending.delete(id)
+    loaded.delete(id)
+  }
+
+  const load = (id: Id) => {
+    const existing = pending.get(id)
+    if (existing) return existing
+    const loader = loaders.get(id)
+    if (!loader) return Promise.reject(new Error(`Unknown scene: ${id}`))
+    const promise = loader().then(
+      ({ default: module }) => {
+        loaded.set(id, module)
+        return module
+      },
+      (error: unknown) => {
+        pending.delete(id)
+        throw error
+      },
+    )
+    pending.set(id, promise)
+    return promise
+  }
+
+  // The module if it has finished loading
+  const peek = (id: Id) => loaded.get(id) ?? null
+
+  return { register, load, peek, ids: () => [...loaders.keys()] }
+}
+
+export const sceneRegistry = createSceneRegistry(builtInScenes)
@@ -0,0 +1,40 @@
+import * as THREE from 'three'
+
+export const DOT_SPREAD = 8
+
+// Points sit at `positions` when contracted and fly to random spots inside a
+// sphere of radius `spread` as the shader's expansion goes to 1.
+export function createScatterGeometry(positions: Float32Array, spread: number, colors?: Float32Array) {
+  const count = positions.length / 3
+  const geometry = new THREE.BufferGeometry()
+  // Target positions: scattered fragments (expanded state)
+  const targetPositions = new Float32Array(count * 3)
+  // Per-particle noise phase for the shader
+  const seeds = new Float32Array(count)
+
+  for (let i = 0; i < count; i++) {
+    const rTarget = spread * Math.cbrt(Math.random())
+    const thetaTarget = Math.random() * Math.PI * 2
+    const phiTarget = Math.acos(Math.random() * 2 - 1)
+
+    targetPositions[i * 3] = rTarget * Math.sin(phiTarget) * Math.cos(thetaTarget)
+    targetPositions[i * 3 + 1] = rTarget * Math.sin(phiTarget) * Math.sin(thetaTarget)
+    targetPositions[i * 3 + 2] = rTarget * Math.cos(phiTarget)
+
+    seeds[i] = Math.random()
+  }
+
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  geometry.setAttribute('targetPos', new THREE.BufferAttribute(targetPositions, 3))
+  geometry.setAttribute('seed', new THREE.BufferAttribute(seeds, 1))
+  if (colors) geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+  // The shader moves points out to `spread`; don't let culling use the contracted bounds
+  geometry.computeBoundingSphere()
+  const bounds = geometry.boundingSphere!
+  bounds.radius = Math.max(bounds.radius + bounds.center.length(), spread) + 1
+  bounds.center.set(0, 0, 0)
+  return geometry
+}
+
+// Smaller sprites as the count grows so additive blending doesn't wash out to white
+export const dotSize = (count: number) => 0.08 * Math.min(1, 2 * Math.cbrt(2000 / count))
@@ -0,0 +1,25 @@
+import type { HandControls, SceneSettings, ShapeType } from '../types'
+
+const DEFAULT_DOT_COUNT = 100_000
+
+export const shapes: ShapeType[] = ['heart', 'flower', 'saturn', 'buddha', 'fireworks', 'sphere']
+
+export const palette = ['#8fd6ff', '#ff7eb6', '#ffd166', '#7bf1a8', '#c792ea', '#ffffff']
+
+export const defaultSceneSettings: SceneSettings = {
+  model: null,
+  particleize: false,
+  shape: 'heart',
+  color: palette[0],
+  dotCount: DEFAULT_DOT_COUNT,
+}
+
+// Default zoomed out for solar system (lower zoom = farther camera)
+export const initialControls: HandControls = {
+  zoom: 0.6,
+  panX: 0,
+  panY: 0,
+  rotationY: 0,
+  rotationZ: 0,
+  hasBothHands: false,
+}
@@ -0,0 +1,95 @@
+import * as THREE from 'three'
+import { particleResponse } from '../audio/bindings'
+import Controls from '../components/Controls'
+import type { ShapeType } from '../types'
+import { disposeObject } from '../utils/disposeObject'
+import { generateGeometry } from '../utils/geometryFactory'
+import { DEFAULT_CAMERA } from './camera'
+import type { SceneModule } from './types'
+
+const SHAPE_COUNT = 6000
+const SHAPE_SIZE = 0.05
+const MORPH_DURATION = 1.2 // seconds
+
+const easeInOutCubic = (x: number) => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2)
+
+// Particles morph between generateGeometry targets and push outward with hand
+// tension. `position` is rewritten every frame from the morph plus a per-particle
+// scatter vector.
+const shapesScene: SceneModule = {
+  setup(_context, settings) {
+    let shape: ShapeType = settings.shape
+    let from = generateGeometry(shape, SHAPE_COUNT)
+    let to = from.slice()
+    let morphStart = -Infinity
+    let now = 0
+    const targetColor = new THREE.Color(settings.color)
+    const baseColor = targetColor.clone()
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(to.slice(), 3))
+
+    // Explosion direction and strength per particle
+    const scatter = new Float32Array(SHAPE_COUNT * 3)
+    for (let i = 0; i < SHAPE_COUNT; i++) {
+      const theta = Math.random() * Math.PI * 2
+      const phi = Math.acos(Math.random() * 2 - 1)
+      const strength = 2 + Math.random() * 5
+      scatter[i * 3] = strength * Math.sin(phi) * Math.cos(theta)
+      scatter[i * 3 + 1] = strength * Math.sin(phi) * Math.sin(theta)
+      scatter[i * 3 + 2] = strength * Math.cos(phi)
+    }
+
+    const material = new THREE.PointsMaterial({
+      color: targetColor.clone(),
+      size: SHAPE_SIZE,
+      transparent: true,
+      opacity: 0.95,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    })
+    const cloud = new THREE.Points(geometry, material)
+    cloud.scale.setScalar(2)
+
+    const morphProgress = () => easeInOutCubic(THREE.MathUtils.clamp((now - morphStart) / MORPH_DURATION, 0, 1))
+
+    return {
+      root: cloud,
+      camera: () => DEFAULT_CAMERA,
+      configure: (next) => {
+        // Palette changes fade the cloud to the new color in update
+        targetColor.set(next.color)
+        if (next.shape === shape) return
+        // Start a morph from wherever the particles are now towards the new shape
+        const morph = morphProgress()
+        from = from.map((v, i) => THREE.MathUtils.lerp(v, to[i], morph))
+        to = generateGeometry(next.shape, SHAPE_COUNT)
+        shape = next.shape
+        morphStart = now
+      },
+      update: (_dt, controls, time, audio) => {
+        now = time
+        const posAttr = geometry.getAttribute('position') as THREE.BufferAttribute
+        const morph = morphProgress()
+        // Gentle swell first, full explosion only near maximum tension
+        const response = particleResponse(controls, audio)
+        const expansion = response.expansion
+        const swell = 1 + expansion * 0.35
+        const burst = expansion * expansion
+        for (let i = 0; i < posAttr.count * 3; i++) {
+          posAttr.array[i] = THREE.MathUtils.lerp(from[i], to[i], morph) * swell + scatter[i] * burst
+        }
+        posAttr.needsUpdate = true
+
+        baseColor.lerp(targetColor, 0.08)
+        material.color.copy(baseColor).offsetHSL(response.hue / (Math.PI * 2), 0, 0)
+        material.size = SHAPE_SIZE * response.size
+        cloud.rotation.y = time * 0.15
+      },
+      dispose: () => disposeObject(cloud),
+    }
+  },
+  Panel: Controls,
+}
+
+export default shapesScene
@@ -0,0 +1,94 @@
+import * as THREE from 'three'
+import { sunResponse } from '../audio/bindings'
+import PlanetCard from '../components/PlanetCard'
+import SolarControls from '../components/SolarControls'
+import { solarData } from '../solar/dataset'
+import { createSolarSystem } from '../solar/solarSystem'
+import { solarStore } from '../solar/store'
+import { createBloomComposer } from '../utils/bloom'
+import type { CameraPreset, SceneModule } from './types'
+
+const LOG_CAMERA: CameraPreset = { baseDist: 15, minDist: 4, maxDist: 25, baseY: 4.5, fog: 0.04 }
+// True scale spreads Neptune out to ~120 units; thin the fog to match
+const TRUE_CAMERA: CameraPreset = { baseDist: 60, minDist: 4, maxDist: 200, baseY: 4.5, fog: 0.004 }
+const DATE_PUBLISH_INTERVAL = 0.25 // seconds between date updates to the panel
+
+// Sun, planets and moons from the orbital dataset, driven by the solar store's
+// clock. Bloom goes through a composer when the quality preset allows it.
+const solarScene: SceneModule = {
+  setup({ scene, camera, renderer, quality }) {
+    const root = new THREE.Group()
+    let system = createSolarSystem(solarData, quality)
+    root.add(system.group)
+    let composer = createBloomComposer(renderer, scene, camera, quality)
+
+    const initial = solarStore.getState()
+    const clock = { jd: initial.jd, jumpVersion: initial.jumpVersion }
+    let lastDatePublish = -Infinity
+    // One preset per focused body and scale, so the renderer only eases on a change of focus
+    const focusPresets = new Map<string, CameraPreset>()
+    const scaleCamera = () => (solarStore.getState().scale === 'true' ? TRUE_CAMERA : LOG_CAMERA)
+
+    return {
+      root,
+      camera: scaleCamera,
+      // Advance simulated time and place every body for it
+      update: (dt, controls, time, audio) => {
+        const state = solarStore.getState()
+        if (state.jumpVersion !== clock.jumpVersion) {
+          clock.jd = state.jd
+          clock.jumpVersion = state.jumpVersion
+          system.resetTrails()
+        }
+        if (!state.paused) clock.jd += dt * state.speed * (controls.timeScale ?? 1)
+        system.update(clock.jd, state.scale, time)
+        system.setSunGlow(sunResponse(audio))
+        if (time - lastDatePublish > DATE_PUBLISH_INTERVAL) {
+          lastDatePublish = time
+          solarStore.tick(clock.jd)
+        }
+      },
+      // Frame the selected body at distances relative to its size
+      focus: (target) => {
+        const { selected, scale } = solarStore.getState()
+        if (!selected || !system.getBodyPosition(selected, target)) return null
+        const key = `${scale}:${selected}`
+        let preset = focusPresets.get(key)
+        if (!preset) {
+          const r = system.getBodyRadius(selected)
+          preset = { ...scaleCamera(), baseDist: r * 6, minDist: r * 2, maxDist: r * 60, baseY: 0 }
+          focusPresets.set(key, preset)
+        }
+        return preset
+      },
+      pick: (ndc, { clearOnMiss }) => {
+        const picked = system.pick(ndc, camera, renderer.domElement.getBoundingClientRect())
+        if (picked || clearOnMiss) solarStore.select(picked)
+      },
+      // Quality changes shader detail and which extras exist, so both are rebuilt
+      setQuality: (next) => {
+        root.remove(system.group)
+        system.dispose()
+        system = createSolarSystem(solarData, next)
+        root.add(system.group)
+        composer?.dispose()
+        composer = createBloomComposer(renderer, scene, camera, next)
+      },
+      resize: (width, height) => composer?.setSize(width, height),
+      render: () => {
+        if (!composer) return false
+        composer.render()
+        return true
+      },
+      dispose: () => {
+        system.dispose()
+        composer?.dispose()
+      },
+    }
+  },
+  hint: 'Click or point at a planet to fly to it',
+  Panel: SolarControls,
+  Overlay: PlanetCard,
+}
+
+export default solarScene
@@ -0,0 +1,54 @@
+import type { ComponentType } from 'react'
+import type * as THREE from 'three'
+import type { AudioLevels, HandControls, ModelLoadStatus, ScenePanelProps, SceneSettings } from '../types'
+import type { QualitySettings } from '../utils/quality'
+
+// Camera distance range around the framed target, with fog to match. The
+// renderer eases between presets whenever the one in use changes identity.
+export interface CameraPreset {
+  baseDist: number
+  minDist: number
+  maxDist: number
+  baseY: number // height of the default target on the vertical axis
+  fog: number
+}
+
+// What the renderer shares with every scene
+export interface SceneContext {
+  scene: THREE.Scene
+  camera: THREE.PerspectiveCamera
+  renderer: THREE.WebGLRenderer
+  quality: QualitySettings
+  onModelStatus: (status: ModelLoadStatus) => void
+}
+
+// A running scene. The renderer adds `root` to the scene and shows it only while
+// the scene is active; the hooks are called for the active scene only, except
+// configure, setQuality, resize and dispose, which reach every scene set up so far.
+export interface SceneInstance {
+  root: THREE.Object3D
+  // Read every frame, so it can follow loaded content or settings
+  camera: () => CameraPreset
+  // `audio` holds this frame's audio levels, null while no audio input is on
+  update: (dt: number, controls: HandControls, time: number, audio: AudioLevels | null) => void
+  // Frames a focused object instead (e.g. a selected planet): writes its position
+  // into `target` and returns a preset sized for it, or null when nothing is focused
+  focus?: (target: THREE.Vector3) => CameraPreset | null
+  // Pan to hold while the hand motion drives something else
+  heldPan?: () => { panX: number; panY: number } | null
+  // Click (clearOnMiss) or point at a position in normalized device coordinates
+  pick?: (ndc: THREE.Vector2, options: { clearOnMiss: boolean }) => void
+  configure?: (settings: SceneSettings) => void
+  setQuality?: (quality: QualitySettings) => void
+  resize?: (width: number, height: number) => void
+  // Draws the frame itself (e.g. through a post-processing composer); false = plain render
+  render?: () => boolean
+  dispose: () => void
+}
+
+export interface SceneModule {
+  setup: (context: SceneContext, settings: SceneSettings) => SceneInstance
+  hint?: string // status line shown while the scene is active
+  Panel?: ComponentType<ScenePanelProps> // rows in the controls panel
+  Overlay?: ComponentType // fixed-position UI next to the panel
+}
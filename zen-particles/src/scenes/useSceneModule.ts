@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { createStore, useStore } from '../utils/store'
+import { sceneRegistry, type SceneMode } from './registry'
+import type { SceneModule } from './types'
+
+// Bumped by retry so every component showing a scene loads it again; the registry
+// has already forgotten the failed load
+const retries = createStore({ attempt: 0 })
+
+const retry = () => retries.setState({ attempt: retries.getState().attempt + 1 })
+
+type LoadResult = { mode: SceneMode; attempt: number; module: SceneModule | null; error: string | null }
+
+// The scene module for a mode (null while its chunk is loading or after it failed),
+// the load error if any, and a retry for it
+export function useSceneModule(mode: SceneMode) {
+  const currentAttempt = useStore(retries).attempt
+  const [result, setResult] = useState<LoadResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    sceneRegistry.load(mode).then(
+      (module) => {
+        if (!cancelled) setResult({ mode, attempt: currentAttempt, module, error: null })
+      },
+      (error: unknown) => {
+        console.error(`Error loading ${mode} scene:`, error)
+        const message = error instanceof Error ? error.message : 'Could not load the scene'
+        if (!cancelled) setResult({ mode, attempt: currentAttempt, module: null, error: message })
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [mode, currentAttempt])
+
+  const current = result?.mode === mode && result.attempt === currentAttempt ? result : null
+  return { module: current?.module ?? sceneRegistry.peek(mode), error: current?.error ?? null, retry }
+}
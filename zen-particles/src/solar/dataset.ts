@@ -0,0 +1,19 @@
+import bodies from './bodies.json'
+import type { MoonData, PlanetData, SolarDataset } from './kepler'
+
+export const solarData = bodies as SolarDataset
+
+export type BodyRef =
+  | { kind: 'sun'; name: string }
+  | { kind: 'planet'; name: string; planet: PlanetData }
+  | { kind: 'moon'; name: string; moon: MoonData; planet: PlanetData }
+
+export function findBody(name: string): BodyRef | null {
+  if (name === solarData.sun.name) return { kind: 'sun', name }
+  for (const planet of solarData.planets) {
+    if (planet.name === name) return { kind: 'planet', name, planet }
+    const moon = planet.moons.find((m) => m.name === name)
+    if (moon) return { kind: 'moon', name, moon, planet }
+  }
+  return null
+}
@@ -0,0 +1,100 @@
+// Orbital mechanics for the solar system scene. Angles in the dataset are degrees,
+// distances AU (orbits) or km (bodies and moons), times days.
+
+export interface OrbitalElements {
+  a: number // semi-major axis, AU
+  e: number // eccentricity
+  i: number // inclination to the ecliptic
+  L: number // mean longitude at J2000
+  varpi: number // longitude of perihelion
+  node: number // longitude of the ascending node
+  periodDays: number
+}
+
+export interface MoonData {
+  name: string
+  radiusKm: number
+  distanceKm: number
+  periodDays: number // negative = retrograde
+  inclinationDeg?: number
+  plane?: 'equator' | 'ecliptic' // orbital reference plane, the planet's equator by default
+  color: string
+}
+
+export type SurfaceStyle = 'rocky' | 'earth' | 'gas' | 'ice'
+
+// Inputs for the procedural surface shader; `colors` runs dark to light
+// (ocean to land for 'earth')
+export interface SurfaceData {
+  style: SurfaceStyle
+  colors: [string, string]
+  atmosphere?: string
+}
+
+export interface PlanetData {
+  name: string
+  radiusKm: number
+  massEarths: number
+  color: string
+  surface: SurfaceData
+  axialTiltDeg: number
+  rotationHours: number // negative = retrograde
+  orbit: OrbitalElements
+  rings?: { innerKm: number; outerKm: number; color: string }
+  moons: MoonData[]
+}
+
+export interface SolarDataset {
+  epoch: string
+  sun: { name: string; radiusKm: number; color: string; rotationHours: number }
+  planets: PlanetData[]
+}
+
+export const J2000 = 2451545 // Julian day of 2000-01-01 12:00 TT
+const MS_PER_DAY = 86_400_000
+const UNIX_EPOCH_JD = 2440587.5
+
+export const dateToJulian = (date: Date) => date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD
+export const julianToDate = (jd: number) => new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY)
+
+const DEG = Math.PI / 180
+
+// Eccentric anomaly E from mean anomaly M (radians) by Newton iteration
+export function solveKepler(M: number, e: number) {
+  let E = e < 0.8 ? M : Math.PI
+  for (let n = 0; n < 12; n++) {
+    const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+    E -= delta
+    if (Math.abs(delta) < 1e-10) break
+  }
+  return E
+}
+
+// Heliocentric ecliptic position in AU at Julian day `jd`. Elements are held at
+// their J2000 values and the mean longitude advances with the orbital period.
+export function heliocentricPosition(orbit: OrbitalElements, jd: number): [number, number, number] {
+  const L = orbit.L + (360 / orbit.periodDays) * (jd - J2000)
+  const omega = (orbit.varpi - orbit.node) * DEG // argument of perihelion
+  const node = orbit.node * DEG
+  const incl = orbit.i * DEG
+  const M = ((((L - orbit.varpi) % 360) + 540) % 360 - 180) * DEG
+
+  const E = solveKepler(M, orbit.e)
+  // Position in the orbital plane, perihelion along +x
+  const xp = orbit.a * (Math.cos(E) - orbit.e)
+  const yp = orbit.a * Math.sqrt(1 - orbit.e * orbit.e) * Math.sin(E)
+
+  const cw = Math.cos(omega)
+  const sw = Math.sin(omega)
+  const cn = Math.cos(node)
+  const sn = Math.sin(node)
+  const ci = Math.cos(incl)
+  const si = Math.sin(incl)
+  return [
+    (cw * cn - sw * sn * ci) * xp + (-sw * cn - cw * sn * ci) * yp,
+    (cw * sn + sw * cn * ci) * xp + (-sw * sn + cw * cn * ci) * yp,
+    sw * si * xp + cw * si * yp,
+  ]
+}
+
+export const distanceAU = ([x, y, z]: [number, number, number]) => Math.sqrt(x * x + y * y + z * z)
@@ -0,0 +1,293 @@
+import * as THREE from 'three'
+import type { SurfaceStyle } from './kepler'
+
+const SURFACE_STYLES: Record<SurfaceStyle, number> = { rocky: 0, earth: 1, gas: 2, ice: 3 }
+
+// Value noise and fBm on object-space positions, so patterns are fixed to the
+// surface and rotate with the body. OCTAVES comes from the material defines.
+const noiseChunk = /* glsl */ `
+  float surfaceHash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+  }
+
+  float surfaceNoise(vec3 x) {
+    vec3 i = floor(x);
+    vec3 f = fract(x);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(
+        mix(surfaceHash(i), surfaceHash(i + vec3(1.0, 0.0, 0.0)), f.x),
+        mix(surfaceHash(i + vec3(0.0, 1.0, 0.0)), surfaceHash(i + vec3(1.0, 1.0, 0.0)), f.x),
+        f.y
+      ),
+      mix(
+        mix(surfaceHash(i + vec3(0.0, 0.0, 1.0)), surfaceHash(i + vec3(1.0, 0.0, 1.0)), f.x),
+        mix(surfaceHash(i + vec3(0.0, 1.0, 1.0)), surfaceHash(i + vec3(1.0, 1.0, 1.0)), f.x),
+        f.y
+      ),
+      f.z
+    );
+  }
+
+  // Normalized to 0-1 whatever the octave count, so thresholds hold across quality presets
+  float surfaceFbm(vec3 p) {
+    float sum = 0.0;
+    float amp = 0.5;
+    for (int i = 0; i < OCTAVES; i++) {
+      sum += amp * surfaceNoise(p);
+      p *= 2.02;
+      amp *= 0.5;
+    }
+    return sum / (1.0 - pow(0.5, float(OCTAVES)));
+  }
+`
+
+// Colour on the unit sphere `n`; surfaceLow/surfaceHigh are dark and light tones
+// (ocean and land for Earth)
+const surfaceChunk = /* glsl */ `
+  uniform vec3 surfaceLow;
+  uniform vec3 surfaceHigh;
+  uniform float surfaceSeed;
+  varying vec3 vSurfacePos;
+
+  ${noiseChunk}
+
+  vec3 surfaceColor(vec3 n) {
+    vec3 p = n + vec3(surfaceSeed);
+  #if SURFACE_STYLE == 0
+    // Mottled plains with darker basins
+    float h = surfaceFbm(p * 3.0);
+    float basins = smoothstep(0.55, 0.7, surfaceFbm(p * 1.5 + 7.0));
+    return mix(mix(surfaceLow, surfaceHigh, h), surfaceLow * 0.7, basins * 0.6);
+  #elif SURFACE_STYLE == 1
+    // Continents over ocean, polar ice and a thin cloud layer
+    float h = surfaceFbm(p * 2.2);
+    float land = smoothstep(0.5, 0.53, h);
+    vec3 ground = mix(surfaceHigh, vec3(0.45, 0.33, 0.18), smoothstep(0.6, 0.75, h));
+    vec3 base = mix(surfaceLow * (0.7 + 0.5 * h), ground, land);
+    float ice = smoothstep(0.82, 0.9, abs(n.y) + 0.08 * surfaceFbm(p * 6.0));
+    float clouds = smoothstep(0.55, 0.75, surfaceFbm(p * 4.0 + 13.0));
+    return mix(mix(base, vec3(0.9), ice), vec3(1.0), clouds * 0.6);
+  #elif SURFACE_STYLE == 2
+    // Gas giant: latitude bands bent by turbulence
+    float warp = surfaceFbm(p * vec3(2.0, 6.0, 2.0));
+    float bands = 0.5 + 0.5 * sin(n.y * 22.0 + warp * 4.0);
+    return mix(surfaceLow, surfaceHigh, bands);
+  #else
+    // Ice giant: faint, wide bands
+    float warp = surfaceFbm(p * vec3(1.5, 4.0, 1.5));
+    float bands = 0.5 + 0.5 * sin(n.y * 9.0 + warp * 2.0);
+    return mix(surfaceLow, surfaceHigh, 0.35 + 0.3 * bands);
+  #endif
+  }
+`
+
+// Stable per-body offset into the noise field so planets of one style differ
+const seedFromName = (name: string) => {
+  let hash = 0
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) % 1000
+  return hash / 10
+}
+
+export interface SurfaceMaterialOptions {
+  name: string
+  style: SurfaceStyle
+  colors: [THREE.ColorRepresentation, THREE.ColorRepresentation]
+  octaves: number
+  roughness?: number
+}
+
+// MeshStandardMaterial with a procedural albedo, so lighting, fog and shadows
+// stay three's own
+export function createSurfaceMaterial({ name, style, colors, octaves, roughness = 0.7 }: SurfaceMaterialOptions) {
+  const material = new THREE.MeshStandardMaterial({ roughness, metalness: 0 })
+  const uniforms = {
+    surfaceLow: { value: new THREE.Color(colors[0]) },
+    surfaceHigh: { value: new THREE.Color(colors[1]) },
+    surfaceSeed: { value: seedFromName(name) },
+  }
+  material.defines = { SURFACE_STYLE: SURFACE_STYLES[style], OCTAVES: octaves }
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vSurfacePos;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvSurfacePos = position;')
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${surfaceChunk}`)
+      .replace(
+        '#include <color_fragment>',
+        '#include <color_fragment>\ndiffuseColor.rgb *= surfaceColor(normalize(vSurfacePos));',
+      )
+  }
+  material.customProgramCacheKey = () => `surface-${style}-${octaves}`
+  return material
+}
+
+const rimVertexShader = /* glsl */ `
+  varying vec3 vNormalView;
+  varying vec3 vViewDir;
+  varying vec3 vSurfacePos;
+
+  #include <fog_pars_vertex>
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vNormalView = normalize(normalMatrix * normal);
+    vViewDir = normalize(-mvPosition.xyz);
+    vSurfacePos = position;
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+  }
+`
+
+// Fresnel glow on a shell slightly larger than the planet, brightest at the limb
+const atmosphereFragmentShader = /* glsl */ `
+  uniform vec3 glowColor;
+  uniform float intensity;
+
+  varying vec3 vNormalView;
+  varying vec3 vViewDir;
+
+  #include <fog_pars_fragment>
+
+  void main() {
+    float rim = 1.0 - max(dot(normalize(vNormalView), normalize(vViewDir)), 0.0);
+    float glow = pow(rim, 3.0) * intensity;
+    gl_FragColor = vec4(glowColor * glow, glow);
+
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`
+
+export function createAtmosphereMaterial(color: THREE.ColorRepresentation, intensity = 1.4) {
+  return new THREE.ShaderMaterial({
+    uniforms: THREE.UniformsUtils.merge([
+      THREE.UniformsLib.fog,
+      { glowColor: { value: new THREE.Color(color) }, intensity: { value: intensity } },
+    ]),
+    vertexShader: rimVertexShader,
+    fragmentShader: atmosphereFragmentShader,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    fog: true,
+  })
+}
+
+// Granulation drifting over time, darker toward the limb. Output goes above 1 so
+// the bloom pass picks out the sun and little else.
+const sunFragmentShader = /* glsl */ `
+  uniform float time;
+  uniform vec3 coreColor;
+  uniform vec3 edgeColor;
+  uniform float intensity;
+
+  varying vec3 vNormalView;
+  varying vec3 vViewDir;
+  varying vec3 vSurfacePos;
+
+  #include <fog_pars_fragment>
+
+  ${noiseChunk}
+
+  void main() {
+    vec3 p = normalize(vSurfacePos);
+    float cells = surfaceFbm(p * 5.0 + vec3(0.0, time * 0.05, time * 0.03));
+    float spots = surfaceFbm(p * 1.5 - time * 0.01);
+    vec3 color = mix(edgeColor, coreColor, cells);
+    color *= 1.0 - 0.35 * smoothstep(0.62, 0.75, spots);
+    float limb = pow(max(dot(normalize(vNormalView), normalize(vViewDir)), 0.0), 0.4);
+    gl_FragColor = vec4(color * intensity * (0.55 + 0.45 * limb), 1.0);
+
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`
+
+export const SUN_INTENSITY = 2.4
+
+export function createSunMaterial(octaves: number) {
+  return new THREE.ShaderMaterial({
+    uniforms: THREE.UniformsUtils.merge([
+      THREE.UniformsLib.fog,
+      {
+        time: { value: 0 },
+        coreColor: { value: new THREE.Color('#fff1c2') },
+        edgeColor: { value: new THREE.Color('#ff8a1f') },
+        intensity: { value: SUN_INTENSITY },
+      },
+    ]),
+    defines: { OCTAVES: octaves },
+    vertexShader: rimVertexShader,
+    fragmentShader: sunFragmentShader,
+    fog: true,
+  })
+}
+
+const ringVertexShader = /* glsl */ `
+  varying float vRadius;
+
+  #include <fog_pars_vertex>
+
+  void main() {
+    vRadius = length(position.xy);
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+  }
+`
+
+// Concentric ringlets with a gap at `gap` (0-1 across the ring, e.g. the Cassini Division)
+const ringFragmentShader = /* glsl */ `
+  uniform vec3 ringColor;
+  uniform float inner;
+  uniform float outer;
+  uniform vec2 gap;
+  uniform float opacity;
+
+  varying float vRadius;
+
+  #include <fog_pars_fragment>
+
+  ${noiseChunk}
+
+  void main() {
+    float r = (vRadius - inner) / (outer - inner);
+    float grain = surfaceFbm(vec3(r * 80.0, 0.5, 0.5));
+    float bands = 0.5 + 0.5 * sin(r * 70.0 + sin(r * 17.0) * 2.0);
+    float division = 1.0 - 0.85 * smoothstep(gap.x - 0.01, gap.x + 0.01, r) * (1.0 - smoothstep(gap.y - 0.01, gap.y + 0.01, r));
+    float edge = smoothstep(0.0, 0.04, r) * (1.0 - smoothstep(0.96, 1.0, r));
+    float alpha = opacity * edge * division * (0.45 + 0.55 * grain);
+    gl_FragColor = vec4(ringColor * (0.75 + 0.25 * bands), alpha);
+
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`
+
+export function createRingMaterial(color: THREE.ColorRepresentation, inner: number, outer: number, octaves: number) {
+  return new THREE.ShaderMaterial({
+    uniforms: THREE.UniformsUtils.merge([
+      THREE.UniformsLib.fog,
+      {
+        ringColor: { value: new THREE.Color(color) },
+        inner: { value: inner },
+        outer: { value: outer },
+        gap: { value: new THREE.Vector2(0.65, 0.72) },
+        opacity: { value: 0.8 },
+      },
+    ]),
+    defines: { OCTAVES: octaves },
+    vertexShader: ringVertexShader,
+    fragmentShader: ringFragmentShader,
+    side: THREE.DoubleSide,
+    transparent: true,
+    depthWrite: false,
+    fog: true,
+  })
+}
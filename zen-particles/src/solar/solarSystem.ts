@@ -0,0 +1,323 @@
+import * as THREE from 'three'
+import { qualitySettings, type QualitySettings } from '../utils/quality'
+import { J2000, heliocentricPosition, type OrbitalElements, type PlanetData, type SolarDataset } from './kepler'
+import {
+  createAtmosphereMaterial,
+  createRingMaterial,
+  createSunMaterial,
+  createSurfaceMaterial,
+  SUN_INTENSITY,
+} from './materials'
+import type { SolarScale } from './store'
+
+const AU_KM = 149_597_870.7
+const AU_UNITS = 4 // scene units per AU at true scale
+const KM_UNITS = AU_UNITS / AU_KM
+// At true scale distances between planets are real, but each planet's own system
+// (its radius, rings and moon orbits) is enlarged by this factor to stay visible
+export const TRUE_SCALE_BODY_FACTOR = 50
+
+// Log scale squeezes 0.4-30 AU into roughly the old hand-tuned layout
+const logDistance = (au: number) => 1.733 * Math.log(1 + au / 0.3)
+const logPlanetRadius = (km: number) => 0.12 + 0.09 * Math.log(1 + km / 1000)
+const logMoonRadius = (km: number) => 0.03 + 0.04 * Math.log(1 + km / 1000)
+
+const ATMOSPHERE_SCALE = 1.12 // shell radius relative to the planet
+const ORBIT_REFRESH_DAYS = 3650 // orbital elements drift; redraw the paths once the date moves this far
+const TRAIL_MIN_STEP = 0.002 // scene units a planet moves before its trail gets a new point
+
+// Recent positions, oldest first, drawn with a fade toward the tail
+type Trail = {
+  line: THREE.Line
+  positions: Float32Array
+  colors: Float32Array
+  color: THREE.Color
+  count: number
+}
+
+type MoonBody = {
+  name: string
+  mesh: THREE.Mesh
+  radiusKm: number
+  distanceKm: number
+  periodDays: number
+  phase: number
+}
+
+type PlanetBody = {
+  data: PlanetData
+  anchor: THREE.Group // follows the orbit
+  tilt: THREE.Group // axial tilt; equatorial moons and the rings live here
+  body: THREE.Group // scaled to the planet's visual radius
+  mesh: THREE.Mesh
+  moons: MoonBody[]
+  eclipticMoons: THREE.Group // moons orbiting in the ecliptic rather than the equator
+  orbit: THREE.LineLoop
+  trail: Trail | null
+}
+
+const eclipticToScene = ([x, y, z]: [number, number, number], target: THREE.Vector3) => target.set(x, z, -y)
+
+// Ecliptic position of an orbit at a Julian day in scene units for the scale mode
+const orbitToScene = (orbit: OrbitalElements, jd: number, scale: SolarScale, target: THREE.Vector3) => {
+  eclipticToScene(heliocentricPosition(orbit, jd), target)
+  // Log scale keeps the direction and compresses the distance
+  if (scale === 'log') return target.setLength(logDistance(target.length()))
+  return target.multiplyScalar(AU_UNITS)
+}
+
+function createTrail(color: string, length: number): Trail {
+  const positions = new Float32Array(length * 3)
+  const colors = new Float32Array(length * 3)
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage))
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3).setUsage(THREE.DynamicDrawUsage))
+  geometry.setDrawRange(0, 0)
+  // Additive blending, so fading the colour to black fades the line out
+  const material = new THREE.LineBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+  })
+  const line = new THREE.Line(geometry, material)
+  line.frustumCulled = false // the bounds change every frame
+  return { line, positions, colors, color: new THREE.Color(color), count: 0 }
+}
+
+function pushTrail(trail: Trail, point: THREE.Vector3) {
+  const { positions, colors } = trail
+  const capacity = positions.length / 3
+  if (trail.count > 0) {
+    const last = (trail.count - 1) * 3
+    const dx = point.x - positions[last]
+    const dy = point.y - positions[last + 1]
+    const dz = point.z - positions[last + 2]
+    if (dx * dx + dy * dy + dz * dz < TRAIL_MIN_STEP * TRAIL_MIN_STEP) return
+  }
+  const growing = trail.count < capacity
+  if (growing) trail.count++
+  else positions.copyWithin(0, 3)
+  point.toArray(positions, (trail.count - 1) * 3)
+
+  // The fade only depends on the number of points, so recolour while the trail grows
+  if (growing) {
+    for (let i = 0; i < trail.count; i++) {
+      const fade = Math.pow((i + 1) / trail.count, 1.5) * 0.8
+      colors[i * 3] = trail.color.r * fade
+      colors[i * 3 + 1] = trail.color.g * fade
+      colors[i * 3 + 2] = trail.color.b * fade
+    }
+    trail.line.geometry.getAttribute('color').needsUpdate = true
+    trail.line.geometry.setDrawRange(0, trail.count)
+  }
+  trail.line.geometry.getAttribute('position').needsUpdate = true
+}
+
+// Builds the Sun, planets, rings and moons from the dataset, with orbit paths
+// and trails. `update` places every body for a Julian day; nothing depends on
+// frame rate. The quality settings pick shader detail and which extras exist.
+export function createSolarSystem(data: SolarDataset, quality: QualitySettings = qualitySettings.high) {
+  const group = new THREE.Group()
+  group.name = 'solarSystem'
+  const sphere = new THREE.SphereGeometry(1, quality.sphereSegments, quality.sphereSegments)
+  const disposables: { dispose: () => void }[] = [sphere]
+  const radii = new Map<string, number>() // current visual radius per body
+  let scale: SolarScale | null = null
+  let orbitEpoch = J2000 // date the orbit paths were sampled around
+
+  const sunMat = createSunMaterial(quality.surfaceOctaves)
+  disposables.push(sunMat)
+  const sun = new THREE.Mesh(sphere, sunMat)
+  sun.name = 'sun'
+  group.add(sun)
+
+  const planets: PlanetBody[] = data.planets.map((p) => {
+    const material = createSurfaceMaterial({
+      name: p.name,
+      style: p.surface.style,
+      colors: p.surface.colors,
+      octaves: quality.surfaceOctaves,
+      roughness: p.surface.style === 'gas' || p.surface.style === 'ice' ? 0.9 : 0.7,
+    })
+    disposables.push(material)
+    const mesh = new THREE.Mesh(sphere, material)
+    mesh.name = p.name
+
+    const body = new THREE.Group()
+    body.add(mesh)
+    if (quality.atmosphere && p.surface.atmosphere) {
+      const atmosphereMat = createAtmosphereMaterial(p.surface.atmosphere)
+      disposables.push(atmosphereMat)
+      const atmosphere = new THREE.Mesh(sphere, atmosphereMat)
+      atmosphere.scale.setScalar(ATMOSPHERE_SCALE)
+      body.add(atmosphere)
+    }
+    if (p.rings) {
+      const inner = p.rings.innerKm / p.radiusKm
+      const outer = p.rings.outerKm / p.radiusKm
+      const ringGeo = new THREE.RingGeometry(inner, outer, 128, 1)
+      const ringMat = createRingMaterial(p.rings.color, inner, outer, quality.surfaceOctaves)
+      disposables.push(ringGeo, ringMat)
+      const ring = new THREE.Mesh(ringGeo, ringMat)
+      ring.rotation.x = -Math.PI / 2 // into the equatorial plane
+      body.add(ring)
+    }
+
+    const tilt = new THREE.Group()
+    tilt.rotation.z = THREE.MathUtils.degToRad(p.axialTiltDeg)
+    tilt.add(body)
+    const eclipticMoons = new THREE.Group()
+    const anchor = new THREE.Group()
+    anchor.add(tilt, eclipticMoons)
+    group.add(anchor)
+
+    const orbitMat = new THREE.LineBasicMaterial({ color: p.color, transparent: true, opacity: 0.22, depthWrite: false })
+    const orbit = new THREE.LineLoop(new THREE.BufferGeometry(), orbitMat)
+    disposables.push(orbit.geometry, orbitMat)
+    group.add(orbit)
+
+    const trail = quality.trailLength > 0 ? createTrail(p.color, quality.trailLength) : null
+    if (trail) {
+      disposables.push(trail.line.geometry, trail.line.material as THREE.Material)
+      group.add(trail.line)
+    }
+
+    const moons = p.moons.map((m, index) => {
+      const moonMat = createSurfaceMaterial({
+        name: m.name,
+        style: 'rocky',
+        colors: [new THREE.Color(m.color).multiplyScalar(0.55), m.color],
+        octaves: quality.surfaceOctaves,
+        roughness: 0.85,
+      })
+      disposables.push(moonMat)
+      const moonMesh = new THREE.Mesh(sphere, moonMat)
+      moonMesh.name = m.name
+      const moonOrbit = new THREE.Group()
+      moonOrbit.rotation.x = THREE.MathUtils.degToRad(m.inclinationDeg ?? 0)
+      moonOrbit.add(moonMesh)
+      ;(m.plane === 'ecliptic' ? eclipticMoons : tilt).add(moonOrbit)
+      return { name: m.name, mesh: moonMesh, radiusKm: m.radiusKm, distanceKm: m.distanceKm, periodDays: m.periodDays, phase: index * 2.4 }
+    })
+
+    return { data: p, anchor, tilt, body, mesh, moons, eclipticMoons, orbit, trail }
+  })
+
+  // One period of each orbit sampled around `jd`, in the current scale
+  const orbitPoint = new THREE.Vector3()
+  const drawOrbits = (jd: number) => {
+    if (!scale) return
+    orbitEpoch = jd
+    planets.forEach((p) => {
+      const points = new Float32Array(quality.orbitSegments * 3)
+      for (let i = 0; i < quality.orbitSegments; i++) {
+        const sampleJd = jd + (p.data.orbit.periodDays * i) / quality.orbitSegments
+        orbitToScene(p.data.orbit, sampleJd, scale!, orbitPoint).toArray(points, i * 3)
+      }
+      p.orbit.geometry.setAttribute('position', new THREE.BufferAttribute(points, 3))
+      p.orbit.geometry.computeBoundingSphere()
+    })
+  }
+
+  // Trails would otherwise draw a line across a jump in time or scale
+  const resetTrails = () => {
+    planets.forEach((p) => {
+      if (!p.trail) return
+      p.trail.count = 0
+      p.trail.line.geometry.setDrawRange(0, 0)
+    })
+  }
+
+  // Visual sizes only change with the scale mode
+  const applyScale = (next: SolarScale, jd: number) => {
+    scale = next
+    const sunRadius = next === 'true' ? data.sun.radiusKm * KM_UNITS * TRUE_SCALE_BODY_FACTOR : 1
+    sun.scale.setScalar(sunRadius)
+    radii.set(data.sun.name, sunRadius)
+    planets.forEach((p) => {
+      const r = next === 'true' ? p.data.radiusKm * KM_UNITS * TRUE_SCALE_BODY_FACTOR : logPlanetRadius(p.data.radiusKm)
+      p.body.scale.setScalar(r)
+      radii.set(p.data.name, r)
+      p.moons.forEach((m) => {
+        const mr =
+          next === 'true' ? m.radiusKm * KM_UNITS * TRUE_SCALE_BODY_FACTOR : Math.min(logMoonRadius(m.radiusKm), r * 0.5)
+        m.mesh.scale.setScalar(mr)
+        radii.set(m.name, mr)
+      })
+    })
+    drawOrbits(jd)
+    resetTrails()
+  }
+
+  const moonOrbitRadius = (p: PlanetBody, m: MoonBody) =>
+    scale === 'true'
+      ? m.distanceKm * KM_UNITS * TRUE_SCALE_BODY_FACTOR
+      : radii.get(p.data.name)! * (1.5 + 0.3 * Math.log(m.distanceKm / p.data.radiusKm))
+
+  const helio = new THREE.Vector3()
+  // `time` is scene seconds and only drives the sun's surface animation
+  const update = (jd: number, nextScale: SolarScale, time = 0) => {
+    if (nextScale !== scale) applyScale(nextScale, jd)
+    else if (Math.abs(jd - orbitEpoch) > ORBIT_REFRESH_DAYS) drawOrbits(jd)
+    const days = jd - J2000
+    sun.rotation.y = ((days * 24) / data.sun.rotationHours) * Math.PI * 2
+    sunMat.uniforms.time.value = time
+
+    planets.forEach((p) => {
+      p.anchor.position.copy(orbitToScene(p.data.orbit, jd, scale!, helio))
+      if (p.trail) pushTrail(p.trail, helio)
+      p.mesh.rotation.y = (((days * 24) / p.data.rotationHours) % 1) * Math.PI * 2
+
+      p.moons.forEach((m) => {
+        const angle = ((days / m.periodDays) % 1) * Math.PI * 2 + m.phase
+        const r = moonOrbitRadius(p, m)
+        m.mesh.position.set(Math.cos(angle) * r, 0, -Math.sin(angle) * r)
+      })
+    })
+  }
+
+  const getBodyPosition = (name: string, target: THREE.Vector3) => {
+    const object = group.getObjectByName(name)
+    return object ? object.getWorldPosition(target) : null
+  }
+
+  const getBodyRadius = (name: string) => radii.get(name) ?? 0
+
+  const bodyNames = [data.sun.name, ...planets.flatMap((p) => [p.data.name, ...p.moons.map((m) => m.name)])]
+
+  // Nearest body to a point in normalized device coordinates, by screen distance
+  // so tiny moons and true-scale planets can still be picked
+  const projected = new THREE.Vector3()
+  const pick = (ndc: THREE.Vector2, camera: THREE.PerspectiveCamera, viewport: { width: number; height: number }) => {
+    let best: string | null = null
+    let bestScore = Infinity
+    const pxPerUnit = viewport.height / 2 / Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)
+    bodyNames.forEach((name) => {
+      if (!getBodyPosition(name, projected)) return
+      const distance = projected.distanceTo(camera.position)
+      projected.project(camera)
+      if (projected.z > 1) return // behind the camera
+      const dx = ((projected.x - ndc.x) * viewport.width) / 2
+      const dy = ((projected.y - ndc.y) * viewport.height) / 2
+      const radiusPx = (getBodyRadius(name) / distance) * pxPerUnit
+      const score = Math.hypot(dx, dy) - radiusPx
+      if (score < 16 && score < bestScore) {
+        best = name
+        bestScore = score
+      }
+    })
+    return best
+  }
+
+  const dispose = () => disposables.forEach((d) => d.dispose())
+
+  // Multiplies the sun's emissive intensity (audio binding); above 1 it blooms harder
+  const setSunGlow = (factor: number) => {
+    sunMat.uniforms.intensity.value = SUN_INTENSITY * factor
+  }
+
+  return { group, update, setSunGlow, resetTrails, getBodyPosition, getBodyRadius, pick, dispose }
+}
+
+export type SolarSystem = ReturnType<typeof createSolarSystem>
@@ -0,0 +1,46 @@
+import { createStore, useStore } from '../utils/store'
+import { dateToJulian } from './kepler'
+
+export type SolarScale = 'log' | 'true'
+
+export interface SolarState {
+  jd: number // simulation time, Julian day
+  speed: number // simulated days per real second; negative runs backwards
+  paused: boolean
+  scale: SolarScale
+  selected: string | null // focused body name
+  jumpVersion: number // bumped by date jumps so the scene can tell them from its own ticks
+}
+
+export const MAX_SPEED = 3650
+
+const { getState, setState, subscribe } = createStore<SolarState>({
+  jd: dateToJulian(new Date()),
+  speed: 5,
+  paused: false,
+  scale: 'log',
+  selected: null,
+  jumpVersion: 0,
+})
+
+const clampSpeed = (speed: number) => Math.sign(speed) * Math.min(Math.max(Math.abs(speed), 1 / 24), MAX_SPEED)
+
+export const solarStore = {
+  getState,
+  subscribe,
+
+  jumpTo: (date: Date) => setState({ jd: dateToJulian(date), jumpVersion: getState().jumpVersion + 1 }),
+  // Simulation time reported by the scene; callers throttle this
+  tick: (jd: number) => setState({ jd }),
+  setSpeed: (speed: number) => setState({ speed: clampSpeed(speed) }),
+  reverse: () => setState({ speed: -getState().speed }),
+  togglePaused: () => setState({ paused: !getState().paused }),
+  setScale: (scale: SolarScale) => setState({ scale }),
+  select: (selected: string | null) => {
+    if (selected !== getState().selected) setState({ selected })
+  },
+}
+
+export function useSolar() {
+  return useStore(solarStore)
+}
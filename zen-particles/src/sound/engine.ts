@@ -0,0 +1,139 @@
+import { zoomProgress } from '../input/limits'
+import type { HandControls } from '../types'
+import type { SoundPreset } from './presets'
+
+const GLIDE = 1.5 // seconds to move between presets
+const FOLLOW = 0.08 // seconds for parameters to follow the controls
+const PITCH_RANGE = 200 // cents of detune at full vertical pan
+const ZOOM_OCTAVES = 4 // filter sweep across the zoom range
+const CHIME_PARTIALS = [1, 2.76, 5.4] // inharmonic ratios of a small bell
+const CHIME_DECAY = 2.6 // seconds
+
+const semitones = (root: number, steps: number) => root * Math.pow(2, steps / 12)
+
+// Drone, pad and chimes synthesized from oscillators; nothing is loaded.
+//   drone + pad -> lowpass (zoom) -> stereo pan (panX) -> master
+//   chimes -> feedback delay -> stereo pan -> master
+// panY detunes every oscillator, zoom opens the filter and raises the volume.
+export function createSoundEngine(context: AudioContext, initial: SoundPreset) {
+  let preset = initial
+  const master = context.createGain()
+  master.gain.value = 0
+  const compressor = context.createDynamicsCompressor()
+  master.connect(compressor).connect(context.destination)
+
+  const panner = context.createStereoPanner()
+  panner.connect(master)
+
+  const filter = context.createBiquadFilter()
+  filter.type = 'lowpass'
+  filter.Q.value = 0.8
+  filter.frequency.value = preset.cutoff
+  const voices = context.createGain()
+  voices.gain.value = 0
+  voices.connect(filter).connect(panner)
+
+  const oscillators: OscillatorNode[] = []
+  const addOscillator = (type: OscillatorType, frequency: number, gain: number, output: AudioNode) => {
+    const osc = context.createOscillator()
+    osc.type = type
+    osc.frequency.value = frequency
+    const level = context.createGain()
+    level.gain.value = gain
+    osc.connect(level).connect(output)
+    osc.start()
+    oscillators.push(osc)
+    return osc
+  }
+
+  // Drone: root, a slightly detuned copy for beating, and a sub octave
+  const drone = [
+    addOscillator('sawtooth', preset.root, 0.12, voices),
+    addOscillator('sawtooth', preset.root * 1.004, 0.12, voices),
+    addOscillator('sine', preset.root / 2, 0.3, voices),
+  ]
+
+  // Pad: the chord, swelling slowly with an LFO on its level
+  const padLevel = context.createGain()
+  padLevel.gain.value = 0.5
+  padLevel.connect(voices)
+  const pad = preset.pad.map((step) => addOscillator('triangle', semitones(preset.root, step), 0.14, padLevel))
+  const lfo = context.createOscillator()
+  lfo.frequency.value = preset.lfoRate
+  const lfoDepth = context.createGain()
+  lfoDepth.gain.value = 0.35
+  lfo.connect(lfoDepth).connect(padLevel.gain)
+  lfo.start()
+
+  // Chimes ring into a darkened feedback delay for space
+  const chimes = context.createGain()
+  chimes.gain.value = 0.5
+  const delay = context.createDelay(1)
+  delay.delayTime.value = 0.37
+  const feedback = context.createGain()
+  feedback.gain.value = 0.45
+  const damping = context.createBiquadFilter()
+  damping.type = 'lowpass'
+  damping.frequency.value = 2500
+  chimes.connect(panner)
+  chimes.connect(delay)
+  delay.connect(damping).connect(feedback).connect(delay)
+  damping.connect(panner)
+
+  let chimeIndex = 0
+
+  const setPreset = (next: SoundPreset) => {
+    preset = next
+    const now = context.currentTime
+    const glide = (osc: OscillatorNode, frequency: number) => osc.frequency.setTargetAtTime(frequency, now, GLIDE / 3)
+    glide(drone[0], next.root)
+    glide(drone[1], next.root * 1.004)
+    glide(drone[2], next.root / 2)
+    pad.forEach((osc, i) => glide(osc, semitones(next.root, next.pad[i])))
+    lfo.frequency.setTargetAtTime(next.lfoRate, now, GLIDE / 3)
+  }
+
+  const update = (controls: HandControls) => {
+    const now = context.currentTime
+    const progress = zoomProgress(controls.zoom)
+    filter.frequency.setTargetAtTime(preset.cutoff * Math.pow(2, progress * ZOOM_OCTAVES), now, FOLLOW)
+    voices.gain.setTargetAtTime(preset.level * (0.35 + 0.65 * progress), now, FOLLOW * 3)
+    panner.pan.setTargetAtTime(controls.panX, now, FOLLOW)
+    // Vertical pan bends the pitch of the drone and pad together
+    oscillators.forEach((osc) => osc.detune.setTargetAtTime(controls.panY * PITCH_RANGE, now, FOLLOW))
+  }
+
+  // Closing the fist walks up the chime notes, opening it answers an octave higher
+  const chime = (kind: 'close' | 'open') => {
+    const now = context.currentTime
+    if (kind === 'close') chimeIndex = (chimeIndex + 1) % preset.chimes.length
+    const note = semitones(preset.root, preset.chimes[chimeIndex] + (kind === 'open' ? 12 : 0))
+    CHIME_PARTIALS.forEach((ratio, i) => {
+      const osc = context.createOscillator()
+      osc.frequency.value = note * ratio
+      const envelope = context.createGain()
+      const peak = 0.3 / (i + 1)
+      const decay = CHIME_DECAY / (i + 1)
+      envelope.gain.setValueAtTime(0, now)
+      envelope.gain.linearRampToValueAtTime(peak, now + 0.005)
+      envelope.gain.exponentialRampToValueAtTime(0.0001, now + decay)
+      osc.connect(envelope).connect(chimes)
+      osc.start(now)
+      osc.stop(now + decay + 0.05)
+      osc.onended = () => envelope.disconnect()
+    })
+  }
+
+  const setVolume = (volume: number) => master.gain.setTargetAtTime(volume, context.currentTime, 0.05)
+
+  const dispose = () => {
+    oscillators.forEach((osc) => osc.stop())
+    lfo.stop()
+    master.disconnect()
+    compressor.disconnect()
+  }
+
+  return { setPreset, update, chime, setVolume, dispose }
+}
+
+export type SoundEngine = ReturnType<typeof createSoundEngine>
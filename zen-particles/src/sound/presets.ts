@@ -0,0 +1,22 @@
+import type { SceneMode } from '../types'
+
+// Pitches are semitones above `root`; the engine glides between presets
+export interface SoundPreset {
+  root: number // Hz of the drone
+  pad: [number, number, number] // chord over the drone
+  chimes: number[] // notes fist gestures pick from
+  cutoff: number // Hz of the filter at neutral zoom
+  lfoRate: number // Hz of the pad's slow swell
+  level: number // 0..1 mix of drone and pad
+}
+
+export const soundPresets: Record<SceneMode, SoundPreset> = {
+  // Deep, open fifths for space
+  solar: { root: 55, pad: [7, 12, 19], chimes: [24, 31, 36, 43], cutoff: 500, lfoRate: 0.05, level: 0.8 },
+  // Bright suspended chord under the particle ball
+  dots: { root: 65.41, pad: [7, 14, 19], chimes: [26, 31, 33, 38], cutoff: 900, lfoRate: 0.09, level: 0.7 },
+  // Warm major seventh while shapes morph
+  shapes: { root: 73.42, pad: [4, 7, 11], chimes: [23, 28, 31, 35], cutoff: 1200, lfoRate: 0.12, level: 0.65 },
+  // Darker minor seventh for uploads
+  model: { root: 82.41, pad: [3, 7, 10], chimes: [22, 27, 31, 34], cutoff: 700, lfoRate: 0.07, level: 0.7 },
+}
@@ -0,0 +1,73 @@
+import { resumeAudioContext } from '../audio/context'
+import type { HandControls, SceneMode } from '../types'
+import { createStore, persisted, useStore } from '../utils/store'
+import { createSoundEngine, type SoundEngine } from './engine'
+import { soundPresets } from './presets'
+
+export interface SoundState {
+  muted: boolean
+  volume: number // 0..1
+  error: string | null
+}
+
+const DEFAULT_VOLUME = 0.5
+
+const storage = persisted<{ volume: number }>('zen-particles.sound')
+
+// Starts muted: browsers won't play before a click anyway, and sound should be opt-in
+const { getState, setState, subscribe } = createStore<SoundState>(
+  {
+    muted: true,
+    volume: storage.load((stored) => (typeof stored.volume === 'number' ? stored.volume : DEFAULT_VOLUME), DEFAULT_VOLUME),
+    error: null,
+  },
+  ({ volume }) => storage.save({ volume }),
+)
+let engine: SoundEngine | null = null
+let mode: SceneMode = 'solar'
+let lastControls: HandControls | null = null
+
+// The engine is built on first unmute
+export const soundStore = {
+  getState,
+  subscribe,
+
+  setMuted: async (muted: boolean) => {
+    setState({ muted })
+    if (muted) {
+      engine?.setVolume(0)
+      return
+    }
+    try {
+      const context = await resumeAudioContext()
+      if (!engine) {
+        engine = createSoundEngine(context, soundPresets[mode])
+        if (lastControls) engine.update(lastControls)
+      }
+      if (!getState().muted) engine.setVolume(getState().volume)
+      setState({ error: null })
+    } catch (err) {
+      setState({ muted: true, error: err instanceof Error ? err.message : 'Could not start audio' })
+    }
+  },
+  setVolume: (volume: number) => {
+    setState({ volume })
+    if (!getState().muted) engine?.setVolume(volume)
+  },
+
+  setMode: (next: SceneMode) => {
+    mode = next
+    engine?.setPreset(soundPresets[next])
+  },
+  follow: (controls: HandControls) => {
+    lastControls = controls
+    engine?.update(controls)
+  },
+  chime: (kind: 'close' | 'open') => {
+    if (!getState().muted) engine?.chime(kind)
+  },
+}
+
+export function useSound() {
+  return useStore(soundStore)
+}
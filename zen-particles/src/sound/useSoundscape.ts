@@ -0,0 +1,18 @@
+import { useEffect } from 'react'
+import { useGesture } from '../gestures/useGesture'
+import type { HandControls, SceneMode } from '../types'
+import { soundStore } from './store'
+
+// Sonifies the same control stream the scenes get: zoom and pan move the drone
+// and pad, closing and opening the fist rings chimes, the mode picks the preset
+export function useSoundscape(controls: HandControls, mode: SceneMode) {
+  useEffect(() => {
+    soundStore.setMode(mode)
+  }, [mode])
+
+  useEffect(() => {
+    soundStore.follow(controls)
+  }, [controls])
+
+  useGesture('fist', (event) => soundStore.chime(event.type === 'enter' ? 'close' : 'open'), 'both')
+}
@@ -0,0 +1,101 @@
+import * as THREE from 'three'
+import type { SceneContext } from '../scenes/types'
+import { qualitySettings } from '../utils/quality'
+
+// GL type enums three.js maps sampler uniforms by
+const samplerTypes: Record<string, number> = {
+  sampler2D: 0x8b5e,
+  sampler3D: 0x8b5f,
+  samplerCube: 0x8b60,
+  sampler2DShadow: 0x8b62,
+  sampler2DArray: 0x8dc1,
+}
+
+// A WebGL2 context that accepts every call and draws nothing. three.js still runs
+// its whole upload and bookkeeping path against it, so renderer.info counts the
+// geometries, textures and programs a scene holds, as in a browser. Programs report
+// the sampler uniforms their source declares, so material maps get uploaded too.
+function createStubContext(): WebGL2RenderingContext {
+  const sources = new WeakMap<object, string>()
+  const attached = new WeakMap<object, object[]>()
+  const samplers = (program: object) =>
+    (attached.get(program) ?? []).flatMap((shader) =>
+      [...(sources.get(shader) ?? '').matchAll(/^\s*uniform\s+(?:\w+p\s+)?(sampler\w+)\s+(\w+)\s*;/gm)]
+        .filter(([, type]) => type in samplerTypes)
+        .map(([, type, name]) => ({ name, size: 1, type: samplerTypes[type] })),
+    )
+  const constants = new Map<string, number>()
+  const names = new Map<number, string>()
+  const constant = (name: string) => {
+    if (!constants.has(name)) {
+      const value = 0x1000 + constants.size
+      constants.set(name, value)
+      names.set(value, name)
+    }
+    return constants.get(name)!
+  }
+
+  const parameter = (pname: number) => {
+    const name = names.get(pname) ?? ''
+    if (name === 'VERSION') return 'WebGL 2.0'
+    if (name === 'SHADING_LANGUAGE_VERSION') return 'WebGL GLSL ES 3.00'
+    if (name === 'SCISSOR_BOX' || name === 'VIEWPORT') return new Int32Array([0, 0, 1, 1])
+    if (name.startsWith('MAX_')) return 16
+    return 0
+  }
+
+  const methods: Record<string, (...args: never[]) => unknown> = {
+    getParameter: parameter,
+    getContextAttributes: () => ({ alpha: true, antialias: false, depth: true, stencil: false }),
+    getExtension: () => null,
+    getSupportedExtensions: () => [],
+    getShaderPrecisionFormat: () => ({ precision: 23, rangeMin: 127, rangeMax: 127 }),
+    getShaderParameter: () => true,
+    getShaderInfoLog: () => '',
+    getProgramInfoLog: () => '',
+    shaderSource: (shader: never, source: never) => void sources.set(shader, source),
+    attachShader: (program: never, shader: never) => void attached.set(program, [...(attached.get(program) ?? []), shader]),
+    getProgramParameter: (program: never, pname: number) => {
+      const name = names.get(pname)
+      if (name === 'ACTIVE_UNIFORMS') return samplers(program).length
+      if (name === 'ACTIVE_ATTRIBUTES') return 0
+      return true
+    },
+    getActiveUniform: (program: never, index: never) => samplers(program)[index],
+    checkFramebufferStatus: () => constant('FRAMEBUFFER_COMPLETE'),
+    isContextLost: () => false,
+    getError: () => 0,
+  }
+
+  return new Proxy({} as WebGL2RenderingContext, {
+    get: (_target, prop) => {
+      if (typeof prop !== 'string') return undefined
+      if (/^[A-Z0-9_]+$/.test(prop)) return constant(prop)
+      if (prop in methods) return methods[prop]
+      if (/^(create|get)/.test(prop)) return () => ({})
+      return () => undefined
+    },
+  })
+}
+
+export function createStubRenderer() {
+  const canvas = {
+    width: 300,
+    height: 150,
+    style: {},
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  } as unknown as HTMLCanvasElement
+  return new THREE.WebGLRenderer({ canvas, context: createStubContext() })
+}
+
+// Everything a scene module's setup needs, on top of the stub renderer
+export function createStubSceneContext(onModelStatus: SceneContext['onModelStatus'] = () => {}): SceneContext {
+  return {
+    scene: new THREE.Scene(),
+    camera: new THREE.PerspectiveCamera(),
+    renderer: createStubRenderer(),
+    quality: qualitySettings.low,
+    onModelStatus,
+  }
+}
@@ -1,20 +1,77 @@
+import type { SceneMode } from './scenes/registry'
+import type { FilterConfig } from './utils/signalFilters'
+
 export interface HandControls {
   zoom: number // 1 = neutral, <1 zoom out, >1 zoom in
   panX: number // left/right camera position (-1 to 1)
   panY: number // up/down camera position (-1 to 1)
+  rotationY: number // yaw around the look-at target in radians (two-hand twist)
+  rotationZ: number // camera roll in radians (two-hand tilt)
   hasBothHands: boolean
+  timestamp?: number // performance.now() when the tracker produced this sample
+  // Scene parameters set directly by gesture bindings; unset = the scene's own mapping
+  expansion?: number // 0..1 particle expansion instead of the zoom-driven one
+  timeScale?: number // multiplies solar time and animation playback
+  hue?: number // radians of particle hue rotation
+}
+
+// Audio analysis of the current frame, all 0..1; null while no audio input is on
+export interface AudioLevels {
+  bass: number // ~20-250 Hz
+  mid: number // ~250-2000 Hz
+  treble: number // ~2-8 kHz
+  level: number // whole spectrum
+  beat: number // 1 on a detected beat, decaying to 0
 }
 
 export interface HandTrackerProps {
   onControls: (controls: HandControls) => void
   onError?: (message: string | null) => void
+  filterConfig?: FilterConfig
 }
 
-export type SceneMode = 'solar' | 'dots' | 'model'
+// Scene modes are the ids of the scene registry
+export type { SceneMode }
+
+export type QualityPreset = 'low' | 'medium' | 'high'
+
+export type ShapeType = 'sphere' | 'heart' | 'flower' | 'saturn' | 'buddha' | 'fireworks'
+
+// An uploaded model or image. `name` is the original file name and only a hint;
+// the loader registry sniffs the content to pick a format.
+export interface ModelSource {
+  url: string
+  name: string
+  resources?: Record<string, string> // companion files (.mtl, .bin, textures) by file name -> URL
+}
+
+export type ModelLoadStatus =
+  | { state: 'idle' }
+  | { state: 'loading'; name: string; progress: number | null }
+  | { state: 'ready'; name: string }
+  | { state: 'error'; name: string; message: string }
+
+// Per-scene options chosen in the panel; every scene reads the ones it cares about
+export interface SceneSettings {
+  model: ModelSource | null
+  particleize: boolean // show uploads as particle clouds
+  shape: ShapeType
+  color: string
+  dotCount: number // particles in dots mode
+}
 
 export interface SceneProps {
   controls: HandControls
   mode: SceneMode
-  modelUrl?: string | null
+  settings: SceneSettings
+  onModelStatus?: (status: ModelLoadStatus) => void
+  quality?: QualityPreset
 }
 
+// Props of a scene's own rows in the controls panel
+export interface ScenePanelProps {
+  settings: SceneSettings
+  onSettingsChange: (patch: Partial<SceneSettings>) => void
+  tension: number // 0..1
+  cameraError?: string | null
+}
@@ -0,0 +1,49 @@
+import * as THREE from 'three'
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js'
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js'
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js'
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js'
+import type { QualitySettings } from './quality'
+
+// Only HDR output blooms: the sun shader goes well above 1, lit planets stay below
+const BLOOM_THRESHOLD = 1.3
+const BLOOM_STRENGTH = 1.1
+const BLOOM_RADIUS = 0.6
+
+// Scene -> bloom -> colour space conversion. The composer renders into half-float
+// targets so the sun keeps its brightness until the bloom pass sees it.
+export function createBloomComposer(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  quality: QualitySettings,
+) {
+  if (quality.bloom === 'off') return null
+  const composer = new EffectComposer(renderer)
+  const bloom = new UnrealBloomPass(new THREE.Vector2(1, 1), BLOOM_STRENGTH, BLOOM_RADIUS, BLOOM_THRESHOLD)
+  composer.addPass(new RenderPass(scene, camera))
+  composer.addPass(bloom)
+  composer.addPass(new OutputPass())
+
+  const setSize = (width: number, height: number) => {
+    const ratio = renderer.getPixelRatio()
+    composer.setPixelRatio(ratio)
+    composer.setSize(width, height)
+    // Half-resolution bloom is much cheaper and the blur hides the difference
+    if (quality.bloom === 'half') bloom.setSize((width * ratio) / 2, (height * ratio) / 2)
+  }
+
+  const size = renderer.getSize(new THREE.Vector2())
+  setSize(size.x, size.y)
+
+  return {
+    render: () => composer.render(),
+    setSize,
+    dispose: () => {
+      bloom.dispose()
+      composer.dispose()
+    },
+  }
+}
+
+export type BloomComposer = NonNullable<ReturnType<typeof createBloomComposer>>
@@ -0,0 +1,59 @@
+import type { HandControls } from '../types'
+import { predictLinear } from './signalFilters'
+
+type Channel = 'zoom' | 'panX' | 'panY' | 'rotationY' | 'rotationZ'
+
+const CHANNELS: Channel[] = ['zoom', 'panX', 'panY', 'rotationY', 'rotationZ']
+
+// Upper bound on the detection interval used as render delay, so a stalled tracker doesn't add lag
+const MAX_INTERVAL_MS = 100
+
+// Turns the tracker's 15–30 Hz control samples into a smooth per-render-frame stream.
+// Rendering runs one sample interval behind and interpolates between the last two
+// samples; if the next sample is late it extrapolates briefly instead of freezing.
+export function createControlsInterpolator(maxPredictMs = 50) {
+  let prev: HandControls | null = null
+  let latest: HandControls | null = null
+  let prevTime = 0
+  let latestTime = 0
+
+  const push = (controls: HandControls) => {
+    const time = controls.timestamp ?? performance.now()
+    if (latest && time <= latestTime) {
+      latest = controls
+      return
+    }
+    prev = latest
+    prevTime = latestTime
+    latest = controls
+    latestTime = time
+  }
+
+  const sample = (now: number): HandControls | null => {
+    if (!latest) return null
+    if (!prev) return latest
+
+    const interval = Math.min(latestTime - prevTime, MAX_INTERVAL_MS)
+    const renderTime = now - interval
+    const out: HandControls = { ...latest }
+
+    if (renderTime <= latestTime) {
+      const alpha = Math.min(Math.max((renderTime - prevTime) / (latestTime - prevTime), 0), 1)
+      CHANNELS.forEach((key) => {
+        out[key] = prev![key] + (latest![key] - prev![key]) * alpha
+      })
+    } else {
+      CHANNELS.forEach((key) => {
+        out[key] = predictLinear(
+          { value: prev![key], time: prevTime },
+          { value: latest![key], time: latestTime },
+          renderTime,
+          maxPredictMs,
+        )
+      })
+    }
+    return out
+  }
+
+  return { push, sample }
+}
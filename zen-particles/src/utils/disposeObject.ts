@@ -0,0 +1,29 @@
+import * as THREE from 'three'
+
+// Frees every geometry, material and texture under `root` so replaced content
+// doesn't linger in GPU memory (watch renderer.info.memory while re-uploading)
+export function disposeObject(root: THREE.Object3D) {
+  const materials = new Set<THREE.Material>()
+  root.traverse((child) => {
+    const renderable = child as THREE.Mesh | THREE.Points | THREE.Line
+    renderable.geometry?.dispose()
+    const material = renderable.material
+    if (Array.isArray(material)) material.forEach((m) => materials.add(m))
+    else if (material) materials.add(material)
+    if ((child as THREE.SkinnedMesh).isSkinnedMesh) (child as THREE.SkinnedMesh).skeleton.dispose()
+  })
+  materials.forEach(disposeMaterial)
+}
+
+export function disposeMaterial(material: THREE.Material) {
+  // Maps live under many names (map, normalMap, uniforms...); dispose anything texture-like
+  Object.values(material).forEach((value) => {
+    if (value instanceof THREE.Texture) value.dispose()
+  })
+  if (material instanceof THREE.ShaderMaterial) {
+    Object.values(material.uniforms).forEach(({ value }) => {
+      if (value instanceof THREE.Texture) value.dispose()
+    })
+  }
+  material.dispose()
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three'
+
+export interface DotMaterialOptions {
+  color?: THREE.ColorRepresentation
+  size?: number // world units, like PointsMaterial.size
+  noise?: number // drift amplitude in world units
+  vertexColors?: boolean // per-particle `color` attribute, multiplied by the tint
+}
+
+// Positions are interpolated on the GPU: `position` is the contracted sphere,
+// `targetPos` the scattered fragments and `expansion` (0-1) blends between them.
+// `seed` gives every particle its own noise phase.
+// `color` is the standard vertex color attribute three declares when vertexColors is set.
+// `pulse` scales the point size and `hueShift` rotates the hue (audio bindings).
+const vertexShader = /* glsl */ `
+  uniform float expansion;
+  uniform float time;
+  uniform float size;
+  uniform float pulse;
+  uniform float scale;
+  uniform float noise;
+
+  attribute vec3 targetPos;
+  attribute float seed;
+
+  varying float vFade;
+  varying vec3 vColor;
+
+  #include <fog_pars_vertex>
+
+  void main() {
+    vec3 transformed = mix(position, targetPos, expansion);
+
+    // Cheap per-particle drift, stronger once the cloud breaks apart
+    float phase = seed * 6.2831;
+    vec3 drift = vec3(
+      sin(time * 0.7 + phase),
+      cos(time * 0.6 + phase * 1.7),
+      sin(time * 0.5 + phase * 2.3)
+    );
+    transformed += drift * noise * (0.3 + expansion);
+
+    vec4 mvPosition = modelViewMatrix * vec4(transformed, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Size attenuation, matching PointsMaterial's sizeAttenuation
+    gl_PointSize = size * pulse * (scale / -mvPosition.z);
+    vFade = 0.75 + 0.25 * fract(seed * 43.758);
+    #ifdef USE_COLOR
+      vColor = color;
+    #else
+      vColor = vec3(1.0);
+    #endif
+
+    #include <fog_vertex>
+  }
+`
+
+// Soft round sprite instead of a hard square
+const fragmentShader = /* glsl */ `
+  uniform vec3 tint;
+  uniform float opacity;
+  uniform float hueShift;
+
+  varying float vFade;
+  varying vec3 vColor;
+
+  #include <fog_pars_fragment>
+
+  // Hue rotation in YIQ space keeps the brightness
+  vec3 rotateHue(vec3 color, float angle) {
+    const mat3 toYIQ = mat3(0.299, 0.596, 0.211, 0.587, -0.274, -0.523, 0.114, -0.322, 0.312);
+    const mat3 toRGB = mat3(1.0, 1.0, 1.0, 0.956, -0.272, -1.106, 0.621, -0.647, 1.703);
+    vec3 yiq = toYIQ * color;
+    float c = cos(angle);
+    float s = sin(angle);
+    yiq.yz = mat2(c, s, -s, c) * yiq.yz;
+    return max(toRGB * yiq, 0.0);
+  }
+
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    float alpha = smoothstep(0.5, 0.1, d) * opacity * vFade;
+    gl_FragColor = vec4(rotateHue(tint * vColor, hueShift), alpha);
+
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`
+
+export function createDotMaterial({
+  color = 0x8fd6ff,
+  size = 0.08,
+  noise = 0.04,
+  vertexColors = false,
+}: DotMaterialOptions = {}) {
+  return new THREE.ShaderMaterial({
+    uniforms: THREE.UniformsUtils.merge([
+      THREE.UniformsLib.fog,
+      {
+        tint: { value: new THREE.Color(color) },
+        opacity: { value: 0.95 },
+        expansion: { value: 0 },
+        time: { value: 0 },
+        size: { value: size },
+        pulse: { value: 1 },
+        hueShift: { value: 0 },
+        scale: { value: 1 },
+        noise: { value: noise },
+      },
+    ]),
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    fog: true,
+    vertexColors,
+  })
+}
+
+// PointsMaterial derives its attenuation scale from the drawing buffer height
+export function setDotScale(material: THREE.ShaderMaterial, renderer: THREE.WebGLRenderer) {
+  material.uniforms.scale.value = renderer.getDrawingBufferSize(new THREE.Vector2()).y / 2
+}
+
+// Applies particleResponse to a dot material
+export function setDotResponse(material: THREE.ShaderMaterial, response: { size: number; hue: number }) {
+  material.uniforms.pulse.value = response.size
+  material.uniforms.hueShift.value = response.hue
+}
@@ -0,0 +1,12 @@
+// Saves a blob through a temporary link
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// File-name-safe ISO timestamp
+export const fileTimestamp = (date = new Date()) => date.toISOString().replace(/[:.]/g, '-')
@@ -0,0 +1,56 @@
+import { HandLandmarker, type NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+// Landmarks computeTension reads: wrist + the five fingertips
+const TENSION_POINTS = new Set([0, 4, 8, 12, 16, 20])
+
+// Draws bones and joints for every hand; landmarks are normalized to the video frame,
+// which the preview (sized to the stream's aspect ratio) shows uncropped
+export function drawHandOverlay(
+  canvas: HTMLCanvasElement,
+  hands: NormalizedLandmark[][],
+  baseWrist: { x: number; y: number } | null,
+) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const dpr = window.devicePixelRatio || 1
+  const width = canvas.clientWidth
+  const height = canvas.clientHeight
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr)
+    canvas.height = Math.round(height * dpr)
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+  ctx.clearRect(0, 0, width, height)
+
+  hands.forEach((hand) => {
+    ctx.strokeStyle = 'rgba(163, 231, 255, 0.85)'
+    ctx.lineWidth = 1.5
+    ctx.beginPath()
+    HandLandmarker.HAND_CONNECTIONS.forEach(({ start, end }) => {
+      ctx.moveTo(hand[start].x * width, hand[start].y * height)
+      ctx.lineTo(hand[end].x * width, hand[end].y * height)
+    })
+    ctx.stroke()
+
+    hand.forEach((point, i) => {
+      const highlighted = TENSION_POINTS.has(i)
+      ctx.fillStyle = highlighted ? '#ff7ad4' : '#ffffff'
+      ctx.beginPath()
+      ctx.arc(point.x * width, point.y * height, highlighted ? 3 : 1.8, 0, Math.PI * 2)
+      ctx.fill()
+    })
+  })
+
+  // Where the current pan gesture started
+  if (baseWrist) {
+    ctx.strokeStyle = '#ffb347'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.arc(baseWrist.x * width, baseWrist.y * height, 6, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+}
+
+export function clearHandOverlay(canvas: HTMLCanvasElement) {
+  canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+}
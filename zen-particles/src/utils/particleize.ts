@@ -0,0 +1,137 @@
+import * as THREE from 'three'
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js'
+
+// Sampled points with one linear RGB color each
+export interface PointSamples {
+  positions: Float32Array
+  colors: Float32Array
+}
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number }
+
+const pixelCache = new WeakMap<object, Pixels | null>()
+
+// Read back an image's RGBA bytes through a 2D canvas
+function readPixels(image: CanvasImageSource & { width: number; height: number }, maxSize = Infinity): Pixels | null {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height))
+  const width = Math.max(1, Math.round(image.width * scale))
+  const height = Math.max(1, Math.round(image.height * scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(image, 0, 0, width, height)
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height }
+}
+
+function texturePixels(texture: THREE.Texture) {
+  const image = texture.image as (CanvasImageSource & { width: number; height: number }) | undefined
+  if (!image) return null
+  if (!pixelCache.has(image)) pixelCache.set(image, readPixels(image, 1024))
+  return pixelCache.get(image) ?? null
+}
+
+const wrap = (x: number) => x - Math.floor(x)
+
+function sampleTexture(pixels: Pixels, uv: THREE.Vector2, flipY: boolean, target: THREE.Color) {
+  const x = Math.min(pixels.width - 1, Math.floor(wrap(uv.x) * pixels.width))
+  const v = wrap(uv.y)
+  const y = Math.min(pixels.height - 1, Math.floor((flipY ? 1 - v : v) * pixels.height))
+  const i = (y * pixels.width + x) * 4
+  return target.setRGB(pixels.data[i] / 255, pixels.data[i + 1] / 255, pixels.data[i + 2] / 255, THREE.SRGBColorSpace)
+}
+
+// Area-weighted points on every mesh under `root`, in root's local space.
+// Color comes from vertex colors or the base color map, tinted by the material color.
+export function sampleMeshSurface(root: THREE.Object3D, count: number): PointSamples {
+  root.updateMatrixWorld(true)
+  const toRoot = root.matrixWorld.clone().invert()
+
+  const entries: { mesh: THREE.Mesh; sampler: MeshSurfaceSampler; area: number; matrix: THREE.Matrix4 }[] = []
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || !mesh.geometry.getAttribute('position')) return
+    const sampler = new MeshSurfaceSampler(mesh).build()
+    const matrix = toRoot.clone().multiply(mesh.matrixWorld)
+    // The sampler weighs faces in mesh space; scale that up to root space
+    const scale = matrix.getMaxScaleOnAxis()
+    const distribution = sampler.distribution
+    const area = distribution ? distribution[distribution.length - 1] * scale * scale : 0
+    if (area > 0) entries.push({ mesh, sampler, area, matrix })
+  })
+
+  const positions = new Float32Array(count * 3)
+  const colors = new Float32Array(count * 3)
+  const totalArea = entries.reduce((sum, e) => sum + e.area, 0)
+  if (!totalArea) return { positions: positions.subarray(0, 0), colors: colors.subarray(0, 0) }
+
+  const position = new THREE.Vector3()
+  const color = new THREE.Color()
+  const uv = new THREE.Vector2()
+  let written = 0
+
+  entries.forEach((entry, index) => {
+    // The last mesh takes the rounding remainder so exactly `count` points come out
+    const share = index === entries.length - 1 ? count - written : Math.round((entry.area / totalArea) * count)
+    const material = (Array.isArray(entry.mesh.material) ? entry.mesh.material[0] : entry.mesh.material) as
+      | THREE.MeshStandardMaterial
+      | undefined
+    const tint = material?.color ?? new THREE.Color(1, 1, 1)
+    const map = material?.map ?? null
+    const pixels = map && entry.mesh.geometry.getAttribute('uv') ? texturePixels(map) : null
+    const hasVertexColors = Boolean(entry.mesh.geometry.getAttribute('color'))
+
+    for (let i = 0; i < share && written < count; i++, written++) {
+      color.setRGB(1, 1, 1)
+      if (pixels) {
+        entry.sampler.sample(position, undefined, hasVertexColors ? color : undefined, uv)
+        const vertexColor = color.clone()
+        sampleTexture(pixels, uv, map!.flipY, color).multiply(vertexColor)
+      } else {
+        entry.sampler.sample(position, undefined, hasVertexColors ? color : undefined)
+      }
+      color.multiply(tint)
+      position.applyMatrix4(entry.matrix)
+      position.toArray(positions, written * 3)
+      color.toArray(colors, written * 3)
+    }
+  })
+
+  return { positions: positions.subarray(0, written * 3), colors: colors.subarray(0, written * 3) }
+}
+
+// One point per (downsampled) pixel on a `width`-wide plane; brighter pixels sit closer
+export function sampleImage(
+  image: CanvasImageSource & { width: number; height: number },
+  { maxPoints = 120_000, width = 3, depth = 0.6 } = {},
+): PointSamples {
+  const side = Math.sqrt(maxPoints * (image.width / image.height))
+  const pixels = readPixels(image, Math.max(side, (side * image.height) / image.width))
+  if (!pixels) return { positions: new Float32Array(0), colors: new Float32Array(0) }
+
+  const count = pixels.width * pixels.height
+  const positions = new Float32Array(count * 3)
+  const colors = new Float32Array(count * 3)
+  const cell = width / pixels.width
+  const color = new THREE.Color()
+  let written = 0
+
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const i = (y * pixels.width + x) * 4
+      if (pixels.data[i + 3] < 25) continue // skip transparent pixels
+      const r = pixels.data[i] / 255
+      const g = pixels.data[i + 1] / 255
+      const b = pixels.data[i + 2] / 255
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+      positions[written * 3] = (x - pixels.width / 2) * cell
+      positions[written * 3 + 1] = (pixels.height / 2 - y) * cell
+      positions[written * 3 + 2] = (luminance - 0.5) * depth
+      color.setRGB(r, g, b, THREE.SRGBColorSpace).toArray(colors, written * 3)
+      written++
+    }
+  }
+
+  return { positions: positions.subarray(0, written * 3), colors: colors.subarray(0, written * 3) }
+}
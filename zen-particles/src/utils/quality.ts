@@ -0,0 +1,49 @@
+import type { QualityPreset } from '../types'
+
+export interface QualitySettings {
+  maxPixelRatio: number
+  bloom: 'off' | 'half' | 'full' // bloom render target resolution
+  surfaceOctaves: number // noise octaves in the planet surface shaders
+  sphereSegments: number
+  atmosphere: boolean
+  orbitSegments: number
+  trailLength: number // points per planet trail, 0 disables trails
+}
+
+export const qualitySettings: Record<QualityPreset, QualitySettings> = {
+  low: {
+    maxPixelRatio: 1,
+    bloom: 'off',
+    surfaceOctaves: 2,
+    sphereSegments: 24,
+    atmosphere: false,
+    orbitSegments: 64,
+    trailLength: 0,
+  },
+  medium: {
+    maxPixelRatio: 1.5,
+    bloom: 'half',
+    surfaceOctaves: 4,
+    sphereSegments: 40,
+    atmosphere: true,
+    orbitSegments: 128,
+    trailLength: 60,
+  },
+  high: {
+    maxPixelRatio: 2,
+    bloom: 'full',
+    surfaceOctaves: 6,
+    sphereSegments: 64,
+    atmosphere: true,
+    orbitSegments: 256,
+    trailLength: 160,
+  },
+}
+
+// Rough first guess from the hardware; the user can override it in the panel
+export function defaultQuality(): QualityPreset {
+  const cores = navigator.hardwareConcurrency ?? 4
+  const touch = navigator.maxTouchPoints > 0
+  if (cores <= 2 || (touch && cores <= 4)) return 'low'
+  return cores >= 8 && !touch ? 'high' : 'medium'
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { createDeadZone, createOneEuroFilter, decayTowardZero, predictLinear } from './signalFilters'
+
+const FRAME_MS = 1000 / 30
+
+// Feeds `values` one frame apart and returns the filtered outputs
+function run(filter: ReturnType<typeof createOneEuroFilter>, values: number[]) {
+  return values.map((value, i) => filter.filter(value, i * FRAME_MS))
+}
+
+describe('createOneEuroFilter', () => {
+  const config = { minCutoff: 1, beta: 0, dCutoff: 1 }
+
+  it('passes the first sample through and holds a constant input', () => {
+    expect(run(createOneEuroFilter(config), [0.4, 0.4, 0.4])).toEqual([0.4, 0.4, 0.4])
+  })
+
+  it('approaches a step gradually instead of jumping to it', () => {
+    const out = run(createOneEuroFilter(config), [0, ...Array(30).fill(1)])
+    expect(out[1]).toBeGreaterThan(0)
+    expect(out[1]).toBeLessThan(0.5)
+    out.slice(2).forEach((value, i) => expect(value).toBeGreaterThan(out[i + 1]))
+    expect(out[30]).toBeGreaterThan(0.9)
+  })
+
+  it('lags less behind fast motion as beta grows', () => {
+    const ramp = Array.from({ length: 20 }, (_, i) => i * 0.05)
+    const slow = run(createOneEuroFilter(config), ramp)
+    const fast = run(createOneEuroFilter({ ...config, beta: 5 }), ramp)
+    expect(ramp[19] - fast[19]).toBeLessThan((ramp[19] - slow[19]) / 2)
+  })
+
+  it('ignores samples that do not move time forward', () => {
+    const filter = createOneEuroFilter(config)
+    filter.filter(0, 100)
+    expect(filter.filter(1, 100)).toBe(0)
+    expect(filter.filter(1, 50)).toBe(0)
+  })
+
+  it('starts over from the value it is reset to', () => {
+    const filter = createOneEuroFilter(config)
+    run(filter, [0, 0, 0])
+    filter.reset(0.7)
+    expect(filter.filter(0.2, 500)).toBe(0.7)
+  })
+})
+
+describe('createDeadZone', () => {
+  it('holds its output while the input stays within the width', () => {
+    const deadZone = createDeadZone(0.1)
+    expect([0.5, 0.55, 0.42, 0.59].map(deadZone.apply)).toEqual([0.5, 0.5, 0.5, 0.5])
+  })
+
+  it('follows larger moves at the width behind, without a jump', () => {
+    const deadZone = createDeadZone(0.1)
+    deadZone.apply(0.5)
+    expect(deadZone.apply(0.8)).toBeCloseTo(0.7)
+    expect(deadZone.apply(0.75)).toBeCloseTo(0.7)
+    expect(deadZone.apply(0.3)).toBeCloseTo(0.4)
+  })
+
+  it('takes the next input as is after a reset', () => {
+    const deadZone = createDeadZone(0.1)
+    deadZone.apply(0.5)
+    deadZone.reset()
+    expect(deadZone.apply(0.52)).toBe(0.52)
+  })
+})
+
+describe('predictLinear', () => {
+  const prev = { value: 1, time: 0 }
+  const latest = { value: 2, time: 100 }
+
+  it('extrapolates along the last two samples', () => {
+    expect(predictLinear(prev, latest, 150, 100)).toBeCloseTo(2.5)
+  })
+
+  it('looks at most maxAheadMs ahead and never backwards', () => {
+    expect(predictLinear(prev, latest, 1000, 50)).toBeCloseTo(2.5)
+    expect(predictLinear(prev, latest, 50, 100)).toBe(2)
+  })
+
+  it('returns the latest value when the samples share a timestamp', () => {
+    expect(predictLinear({ value: 1, time: 100 }, latest, 150, 100)).toBe(2)
+  })
+})
+
+describe('decayTowardZero', () => {
+  it('halves the value every half-life, whatever the step size', () => {
+    expect(decayTowardZero(1, 150, 150)).toBeCloseTo(0.5)
+    const stepped = Array.from({ length: 10 }).reduce<number>((value) => decayTowardZero(value, 30, 150), 1)
+    expect(stepped).toBeCloseTo(0.25)
+  })
+})
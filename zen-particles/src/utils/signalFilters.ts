@@ -0,0 +1,191 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+export interface OneEuroConfig {
+  minCutoff: number // Hz, lower = smoother when the hand is still
+  beta: number // speed coefficient, higher = less lag when the hand moves fast
+  dCutoff: number // Hz, cutoff for the derivative estimate
+}
+
+export interface ChannelFilterConfig extends OneEuroConfig {
+  deadZone: number // input changes smaller than this are ignored (same units as the channel)
+}
+
+export interface FilterConfig {
+  landmarks: OneEuroConfig
+  zoom: ChannelFilterConfig
+  pan: ChannelFilterConfig
+  rotation: ChannelFilterConfig
+  panReturnHalfLifeMs: number // how fast pan eases back to center once the fist opens
+  lostHandHalfLifeMs: number // same, when no hand is visible
+}
+
+export const defaultFilterConfig: FilterConfig = {
+  landmarks: { minCutoff: 2.0, beta: 8, dCutoff: 1.0 },
+  zoom: { minCutoff: 1.2, beta: 0.6, dCutoff: 1.0, deadZone: 0.01 },
+  pan: { minCutoff: 1.0, beta: 1.5, dCutoff: 1.0, deadZone: 0.015 },
+  rotation: { minCutoff: 1.0, beta: 0.8, dCutoff: 1.0, deadZone: 0.005 },
+  panReturnHalfLifeMs: 150,
+  lostHandHalfLifeMs: 220,
+}
+
+export type SmoothingPreset = 'responsive' | 'balanced' | 'smooth'
+
+// Trade-offs between jitter and lag offered in the controls; balanced is the default
+export const smoothingPresets: Record<SmoothingPreset, FilterConfig> = {
+  responsive: {
+    landmarks: { minCutoff: 3.0, beta: 12, dCutoff: 1.0 },
+    zoom: { minCutoff: 2.0, beta: 1.0, dCutoff: 1.0, deadZone: 0.006 },
+    pan: { minCutoff: 1.8, beta: 2.5, dCutoff: 1.0, deadZone: 0.01 },
+    rotation: { minCutoff: 1.8, beta: 1.2, dCutoff: 1.0, deadZone: 0.003 },
+    panReturnHalfLifeMs: 100,
+    lostHandHalfLifeMs: 150,
+  },
+  balanced: defaultFilterConfig,
+  smooth: {
+    landmarks: { minCutoff: 1.0, beta: 4, dCutoff: 1.0 },
+    zoom: { minCutoff: 0.6, beta: 0.3, dCutoff: 1.0, deadZone: 0.015 },
+    pan: { minCutoff: 0.5, beta: 0.8, dCutoff: 1.0, deadZone: 0.02 },
+    rotation: { minCutoff: 0.5, beta: 0.4, dCutoff: 1.0, deadZone: 0.008 },
+    panReturnHalfLifeMs: 220,
+    lostHandHalfLifeMs: 320,
+  },
+}
+
+const smoothingFactor = (dtSeconds: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * dtSeconds
+  return r / (r + 1)
+}
+
+// One Euro filter (Casiez et al. 2012): adaptive low-pass whose cutoff rises with speed
+export function createOneEuroFilter(config: OneEuroConfig) {
+  let prevValue: number | null = null
+  let prevDerivative = 0
+  let prevTime: number | null = null
+
+  const filter = (value: number, timestampMs: number) => {
+    if (prevValue === null || prevTime === null || timestampMs <= prevTime) {
+      prevValue = prevValue ?? value
+      prevTime = timestampMs
+      return prevValue
+    }
+    const dt = (timestampMs - prevTime) / 1000
+    prevTime = timestampMs
+
+    const derivative = (value - prevValue) / dt
+    const aD = smoothingFactor(dt, config.dCutoff)
+    prevDerivative = aD * derivative + (1 - aD) * prevDerivative
+
+    const cutoff = config.minCutoff + config.beta * Math.abs(prevDerivative)
+    const a = smoothingFactor(dt, cutoff)
+    prevValue = a * value + (1 - a) * prevValue
+    return prevValue
+  }
+
+  // Jump straight to a value (e.g. camera reset) without smoothing from the old one
+  const reset = (value: number | null = null) => {
+    prevValue = value
+    prevDerivative = 0
+    prevTime = null
+  }
+
+  return { filter, reset }
+}
+
+// Holds its output until the input moves more than `width` away, then follows
+// at that offset, so sensor noise around a resting value is ignored without a jump
+export function createDeadZone(width: number) {
+  let output: number | null = null
+
+  const apply = (value: number) => {
+    if (output === null) {
+      output = value
+      return output
+    }
+    const delta = value - output
+    if (Math.abs(delta) > width) output += delta - Math.sign(delta) * width
+    return output
+  }
+
+  const reset = (value: number | null = null) => {
+    output = value
+  }
+
+  return { apply, reset }
+}
+
+// Dead zone followed by a One Euro filter, for one scalar control channel
+export function createChannelFilter(config: ChannelFilterConfig) {
+  const deadZone = createDeadZone(config.deadZone)
+  const oneEuro = createOneEuroFilter(config)
+
+  return {
+    filter: (value: number, timestampMs: number) => oneEuro.filter(deadZone.apply(value), timestampMs),
+    reset: (value: number | null = null) => {
+      deadZone.reset(value)
+      oneEuro.reset(value)
+    },
+  }
+}
+
+// Smooths all 21 landmarks of one hand, each coordinate with its own One Euro filter
+export function createLandmarkFilter(config: OneEuroConfig) {
+  let filters: ReturnType<typeof createOneEuroFilter>[] = []
+
+  const filter = (landmarks: NormalizedLandmark[], timestampMs: number): NormalizedLandmark[] => {
+    if (filters.length !== landmarks.length * 3) {
+      filters = Array.from({ length: landmarks.length * 3 }, () => createOneEuroFilter(config))
+    }
+    return landmarks.map((l, i) => ({
+      ...l,
+      x: filters[i * 3].filter(l.x, timestampMs),
+      y: filters[i * 3 + 1].filter(l.y, timestampMs),
+      z: filters[i * 3 + 2].filter(l.z || 0, timestampMs),
+    }))
+  }
+
+  const reset = () => {
+    filters = []
+  }
+
+  return { filter, reset }
+}
+
+// Frame-rate independent exponential decay towards zero
+export function decayTowardZero(value: number, dtMs: number, halfLifeMs: number) {
+  return value * Math.pow(0.5, dtMs / halfLifeMs)
+}
+
+// Linear extrapolation from the last two samples, capped so a stalled tracker can't run away
+export function predictLinear(
+  prev: { value: number; time: number },
+  latest: { value: number; time: number },
+  atTime: number,
+  maxAheadMs: number,
+) {
+  const span = latest.time - prev.time
+  if (span <= 0) return latest.value
+  const ahead = Math.min(Math.max(atTime - latest.time, 0), maxAheadMs)
+  return latest.value + ((latest.value - prev.value) / span) * ahead
+}
+
+// Everything HandTracker needs to smooth one tracking session
+export function createControlFilters(config: FilterConfig = defaultFilterConfig) {
+  const hands = new Map<string, ReturnType<typeof createLandmarkFilter>>()
+
+  return {
+    config,
+    zoom: createChannelFilter(config.zoom),
+    panX: createChannelFilter(config.pan),
+    panY: createChannelFilter(config.pan),
+    rotationY: createChannelFilter(config.rotation),
+    rotationZ: createChannelFilter(config.rotation),
+    // Hands are keyed by handedness so two hands don't share filter state
+    smoothHand: (key: string, landmarks: NormalizedLandmark[], timestampMs: number) => {
+      if (!hands.has(key)) hands.set(key, createLandmarkFilter(config.landmarks))
+      return hands.get(key)!.filter(landmarks, timestampMs)
+    },
+    resetHands: () => hands.clear(),
+  }
+}
+
+export type ControlFilters = ReturnType<typeof createControlFilters>
@@ -0,0 +1,62 @@
+import { useSyncExternalStore } from 'react'
+
+export interface ReadableStore<T> {
+  getState: () => T
+  subscribe: (listener: () => void) => () => void
+}
+
+// Module-level state read by components through useStore and by render loops
+// directly. `onChange` sees every update before subscribers are notified.
+export function createStore<T extends object>(initial: T, onChange?: (next: T, previous: T) => void) {
+  let state = initial
+  const listeners = new Set<() => void>()
+  return {
+    getState: () => state,
+    setState: (patch: Partial<T>) => {
+      const previous = state
+      state = { ...state, ...patch }
+      onChange?.(state, previous)
+      listeners.forEach((fn) => fn())
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export function useStore<T>(store: ReadableStore<T>) {
+  return useSyncExternalStore(store.subscribe, store.getState)
+}
+
+// A JSON entry in localStorage. Without storage (private mode) saves are dropped,
+// so the value only lasts for the session.
+export function persisted<S>(key: string) {
+  return {
+    // A missing or unreadable entry, or one `read` throws on, loads as `fallback`
+    load: <T>(read: (stored: Partial<S>) => T, fallback: T): T => {
+      try {
+        const raw = localStorage.getItem(key)
+        return raw === null ? fallback : read(JSON.parse(raw) as Partial<S>)
+      } catch {
+        return fallback
+      }
+    },
+    save: (value: S) => {
+      try {
+        localStorage.setItem(key, JSON.stringify(value))
+      } catch {
+        // Kept in memory only
+      }
+    },
+    remove: () => {
+      try {
+        localStorage.removeItem(key)
+      } catch {
+        // Kept in memory only
+      }
+    },
+  }
+}
@@ -0,0 +1,94 @@
+export type ResolutionPreset = '480p' | '720p' | '1080p'
+
+export const resolutionPresets: Record<ResolutionPreset, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+}
+
+export const fpsPresets = [15, 30, 60]
+
+export interface WebcamSettings {
+  deviceId: string | null // null = the browser's default front camera
+  resolution: ResolutionPreset
+  fps: number
+  mirror: boolean // selfie view: preview and hand coordinates flipped horizontally
+}
+
+export interface WebcamDevice {
+  deviceId: string
+  label: string
+}
+
+// Resolution and rate are preferences, so a camera that can't match them still opens
+export function videoConstraints(settings: WebcamSettings, deviceId: string | null): MediaTrackConstraints {
+  const { width, height } = resolutionPresets[settings.resolution]
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.fps },
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+  }
+}
+
+// Labels stay empty until camera permission is granted
+export async function listVideoDevices(): Promise<WebcamDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter((d) => d.kind === 'videoinput' && d.deviceId)
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }))
+}
+
+export type CameraPermission = PermissionState | 'unknown'
+
+// Not every browser can query the camera permission; 'unknown' then
+export async function watchCameraPermission(onChange: (state: CameraPermission) => void) {
+  try {
+    const status = await navigator.permissions.query({ name: 'camera' as PermissionName })
+    onChange(status.state)
+    const handleChange = () => onChange(status.state)
+    status.addEventListener('change', handleChange)
+    return () => status.removeEventListener('change', handleChange)
+  } catch {
+    onChange('unknown')
+    return () => {}
+  }
+}
+
+export interface CameraIssue {
+  title: string
+  help: string
+}
+
+// Specific guidance for the ways getUserMedia fails
+export function describeCameraError(err: unknown, permission: CameraPermission): CameraIssue {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : ''
+  if (!window.isSecureContext || !navigator.mediaDevices) {
+    return { title: 'Camera needs HTTPS', help: 'Browsers only offer the camera on https:// pages or localhost.' }
+  }
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return permission === 'denied'
+        ? {
+            title: 'Camera blocked',
+            help: "Camera access is blocked for this site. Allow it from the camera icon in the address bar or the site settings, then press Retry.",
+          }
+        : { title: 'Camera permission needed', help: 'The permission prompt was dismissed. Press Retry and allow camera access.' }
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return {
+        title: 'Camera in use',
+        help: 'Another app or tab is using the camera. Close it or pick another camera, then press Retry.',
+      }
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return { title: 'No camera found', help: 'Connect a camera (it is picked up automatically) or use mouse, touch or keyboard.' }
+    case 'OverconstrainedError':
+      return { title: 'Camera unavailable', help: 'The selected camera is gone or cannot run this mode. Pick another camera or preset.' }
+    default:
+      return { title: 'Camera unavailable', help: err instanceof Error ? err.message : 'Unable to access camera' }
+  }
+}
@@ -0,0 +1,105 @@
+import { createStore, persisted, useStore } from '../utils/store'
+import {
+  fpsPresets,
+  listVideoDevices,
+  resolutionPresets,
+  watchCameraPermission,
+  type CameraPermission,
+  type WebcamDevice,
+  type WebcamSettings,
+} from './devices'
+
+export interface ActiveCamera {
+  label: string
+  width: number
+  height: number
+  frameRate: number
+}
+
+export interface WebcamState {
+  settings: WebcamSettings
+  devices: WebcamDevice[]
+  permission: CameraPermission
+  active: ActiveCamera | null // what the open stream actually delivers
+}
+
+const storage = persisted<WebcamSettings>('zen-particles.webcam')
+
+const defaultSettings: WebcamSettings = { deviceId: null, resolution: '480p', fps: 30, mirror: true }
+
+const readSettings = (stored: Partial<WebcamSettings>): WebcamSettings => ({
+  deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+  resolution: stored.resolution && stored.resolution in resolutionPresets ? stored.resolution : defaultSettings.resolution,
+  fps: typeof stored.fps === 'number' && fpsPresets.includes(stored.fps) ? stored.fps : defaultSettings.fps,
+  mirror: typeof stored.mirror === 'boolean' ? stored.mirror : defaultSettings.mirror,
+})
+
+const { getState, setState, subscribe } = createStore<WebcamState>(
+  { settings: storage.load(readSettings, defaultSettings), devices: [], permission: 'unknown', active: null },
+  (next, previous) => {
+    if (next.settings !== previous.settings) storage.save(next.settings)
+  },
+)
+
+const updateSettings = (patch: Partial<WebcamSettings>) => setState({ settings: { ...getState().settings, ...patch } })
+
+const refreshDevices = async () => {
+  try {
+    setState({ devices: await listVideoDevices() })
+  } catch {
+    setState({ devices: [] })
+  }
+}
+
+export const webcamStore = {
+  getState,
+  subscribe,
+
+  // The chosen camera while it is plugged in, otherwise the default one. The choice
+  // itself is kept, so the camera is used again as soon as it comes back.
+  resolvedDeviceId: () => {
+    const { settings, devices } = getState()
+    return settings.deviceId && devices.some((d) => d.deviceId === settings.deviceId) ? settings.deviceId : null
+  },
+
+  // Follows devices being plugged in or removed and permission changes
+  watch: () => {
+    let stopPermission = () => {}
+    let stopped = false
+    refreshDevices()
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices)
+    watchCameraPermission((permission) => setState({ permission })).then((stop) => {
+      if (stopped) stop()
+      else stopPermission = stop
+    })
+    return () => {
+      stopped = true
+      navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices)
+      stopPermission()
+    }
+  },
+  refreshDevices,
+
+  selectDevice: (deviceId: string | null) => updateSettings({ deviceId }),
+  setResolution: (resolution: WebcamSettings['resolution']) => updateSettings({ resolution }),
+  setFps: (fps: number) => updateSettings({ fps }),
+  toggleMirror: () => updateSettings({ mirror: !getState().settings.mirror }),
+
+  setActive: (track: MediaStreamTrack | null) => {
+    const settings = track?.getSettings()
+    setState({
+      active: track
+        ? {
+            label: track.label,
+            width: settings?.width ?? 0,
+            height: settings?.height ?? 0,
+            frameRate: Math.round(settings?.frameRate ?? 0),
+          }
+        : null,
+    })
+  },
+}
+
+export function useWebcam() {
+  return useStore(webcamStore)
+}
@@ -1,7 +1,86 @@
-import { defineConfig } from 'vite'
+import { createReadStream, existsSync, readFileSync, readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const mediapipeDir = fileURLToPath(new URL('./node_modules/@mediapipe/tasks-vision/', import.meta.url))
+const mediapipeVersion: string = JSON.parse(readFileSync(`${mediapipeDir}package.json`, 'utf8')).version
+const modelFile = fileURLToPath(new URL('./public/mediapipe/hand_landmarker.task', import.meta.url))
+
+// Serves (dev) or emits (build) the MediaPipe wasm runtime from the installed package
+// under <base>/mediapipe/, plus a manifest the app checks its version against
+function mediapipeAssets(): Plugin {
+  const wasmDir = `${mediapipeDir}wasm/`
+  const manifest = JSON.stringify({ version: mediapipeVersion })
+  let base = '/'
+
+  return {
+    name: 'mediapipe-assets',
+    configResolved(config) {
+      base = config.base
+      if (!existsSync(modelFile)) {
+        config.logger.warn('public/mediapipe/hand_landmarker.task is missing - run `npm run fetch:model`')
+      }
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const path = req.url?.split('?')[0] ?? ''
+        const prefix = `${base}mediapipe/`
+        if (path === `${prefix}manifest.json`) {
+          res.setHeader('Content-Type', 'application/json')
+          res.end(manifest)
+          return
+        }
+        const file = path.startsWith(`${prefix}wasm/`) ? path.slice(`${prefix}wasm/`.length) : null
+        if (!file || file.includes('/') || !existsSync(wasmDir + file)) return next()
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript')
+        createReadStream(wasmDir + file).pipe(res)
+      })
+    },
+    generateBundle() {
+      readdirSync(wasmDir).forEach((file) => {
+        this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${file}`, source: readFileSync(wasmDir + file) })
+      })
+      this.emitFile({ type: 'asset', fileName: 'mediapipe/manifest.json', source: manifest })
+    },
+  }
+}
+
+// Serves (dev) or emits (build) three's Draco decoder under <base>draco/ for
+// compressed glTF uploads
+function dracoDecoder(): Plugin {
+  const decoderDir = fileURLToPath(new URL('./node_modules/three/examples/jsm/libs/draco/gltf/', import.meta.url))
+  const files = ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js']
+  let base = '/'
+
+  return {
+    name: 'draco-decoder',
+    configResolved(config) {
+      base = config.base
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const path = req.url?.split('?')[0] ?? ''
+        const file = path.startsWith(`${base}draco/`) ? path.slice(`${base}draco/`.length) : null
+        if (!file || !files.includes(file)) return next()
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript')
+        createReadStream(decoderDir + file).pipe(res)
+      })
+    },
+    generateBundle() {
+      files.forEach((file) => {
+        this.emitFile({ type: 'asset', fileName: `draco/${file}`, source: readFileSync(decoderDir + file) })
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediapipeAssets(), dracoDecoder()],
+  define: {
+    __MEDIAPIPE_VERSION__: JSON.stringify(mediapipeVersion),
+  },
+  // Classic workers, bundled, for the hand detection worker (see handDetector.ts)
+  worker: { format: 'iife' },
 })